@@ -1,48 +1,196 @@
-import { useState, useCallback, useEffect } from 'react';
-import { Upload } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Download, Upload } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import * as XLSX from 'xlsx';
 
 import WorldMap from './components/WorldMap';
 import BarChart from './components/BarChart';
 import PieChart from './components/PieChart';
 import DataTable from './components/DataTable';
 import SectorWeights from './components/SectorWeights';
-import { parseXlsxData, processExcelData } from './utils/dataProcessing';
-import { defaultSectorWeights } from './utils/constants';
-import type { CountryData, SectorWeights as SectorWeightsType } from './types';
+import TrendChart from './components/TrendChart';
+import ValidationReport from './components/ValidationReport';
+import CountryResolver, { type UnresolvedCountry } from './components/CountryResolver';
+import SectorMethodControls from './components/SectorMethodControls';
+import ScenarioManager from './components/ScenarioManager';
+import ScenarioComparison from './components/ScenarioComparison';
+import SensitivityPanel from './components/SensitivityPanel';
+import WeightSolver from './components/WeightSolver';
+import AggregationSelector from './components/AggregationSelector';
+import ColorSchemeControls from './components/ColorSchemeControls';
+import GroupManager from './components/GroupManager';
+import SectorMaps from './components/SectorMaps';
+import RadarChart from './components/RadarChart';
+import CountryProfileDrawer from './components/CountryProfileDrawer';
+import ScatterPlot from './components/ScatterPlot';
+import { prepareCountryData, processYearSheets, scoreCountryData } from './utils/dataProcessing';
+import { ACCEPTED_FILE_TYPES, parseFile, parseXlsxData } from './utils/importers';
+import { extractSectors, validateYearSheets } from './utils/dataValidation';
+import { getDefaultSectorWeights } from './utils/sectors';
+import { readStorage, writeStorage } from './utils/storage';
+import { type UrlState, decodeUrlState, encodeUrlState } from './utils/urlState';
+import {
+  DEFAULT_NORMALIZATION,
+  NORMALIZATION_METHODS,
+  describeNormalization,
+} from './utils/normalization';
+import { DEFAULT_IMPUTATION, IMPUTATION_METHODS } from './utils/imputation';
+import { DEFAULT_AGGREGATION } from './utils/aggregation';
+import { DEFAULT_COLOR_SCHEME } from './utils/colorScale';
+import {
+  BUILT_IN_GROUPS,
+  DEFAULT_GROUP_AGGREGATION,
+  filterByGroup,
+  scoreGroups,
+} from './utils/groups';
+import { buildResultsCsv, downloadFile } from './utils/exportResults';
+import {
+  countryOverridesStorageKey,
+  groupsStorageKey,
+  scenariosStorageKey,
+} from './utils/constants';
+import {
+  DEFAULT_SCENARIO_ID,
+  alignWeights,
+  areWeightsEqual,
+  createScenarioId,
+  getCopyName,
+  getDefaultScenario,
+} from './utils/scenarios';
+import { isSensitivityCurrent } from './utils/sensitivity';
+import type {
+  AggregationMethod,
+  ColorScheme,
+  CountryData,
+  CountryGroup,
+  GroupAggregation,
+  ImputationSettings,
+  MapView,
+  NormalizationSettings,
+  Scenario,
+  Sector,
+  SectorWeights as SectorWeightsType,
+  SensitivityResult,
+  ValidationReport as ValidationReportType,
+  YearData,
+  YearSheet,
+} from './types';
 
 import { BUILD_IN_XML } from './resources/index';
 
 function App() {
-  const [rawData, setRawData] = useState<any[]>([]);
-  const [data, setData] = useState<CountryData[]>([]);
-  const [sectorWeights, setSectorWeights] = useState<SectorWeightsType>(defaultSectorWeights);
+  const [sheets, setSheets] = useState<YearSheet[]>([]);
+  const [years, setYears] = useState<YearData[]>([]);
+  const [selectedYear, setSelectedYear] = useState<string | null>(null);
+  const [sectors, setSectors] = useState<Sector[]>([]);
+  const [sectorWeights, setSectorWeights] = useState<SectorWeightsType>({});
+  const [normalization, setNormalization] = useState<NormalizationSettings>(DEFAULT_NORMALIZATION);
+  const [imputation, setImputation] = useState<ImputationSettings>(DEFAULT_IMPUTATION);
+  const [aggregation, setAggregation] = useState<AggregationMethod>(DEFAULT_AGGREGATION);
+  const [colorScheme, setColorScheme] = useState<ColorScheme>(DEFAULT_COLOR_SCHEME);
+  // One map for the total or the selected sector, or a small map for every sector
+  const [mapLayout, setMapLayout] = useState<'single' | 'sectors'>('single');
+  const [savedScenarios, setSavedScenarios] = useState<Scenario[]>(() =>
+    readStorage(scenariosStorageKey, []),
+  );
+  const [activeScenarioId, setActiveScenarioId] = useState(DEFAULT_SCENARIO_ID);
   const [selectedSector, setSelectedSector] = useState<string | null>(null);
   const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
+  const [comparedCountries, setComparedCountries] = useState<string[]>([]);
+  const [mapView, setMapView] = useState<MapView | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [validationReport, setValidationReport] = useState<ValidationReportType | null>(null);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const [countryOverrides, setCountryOverrides] = useState<Record<string, string>>(() =>
+    readStorage(countryOverridesStorageKey, {}),
+  );
+  const [unmappedCountries, setUnmappedCountries] = useState<CountryData[]>([]);
+  const [showCountryResolver, setShowCountryResolver] = useState(true);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [customGroups, setCustomGroups] = useState<CountryGroup[]>(() =>
+    readStorage(groupsStorageKey, []),
+  );
+  const [shownGroupIds, setShownGroupIds] = useState<string[]>([]);
+  const [groupFilterId, setGroupFilterId] = useState<string | null>(null);
+  const [groupAggregation, setGroupAggregation] =
+    useState<GroupAggregation>(DEFAULT_GROUP_AGGREGATION);
+
+  // State from a shared link, applied once the first file has loaded
+  const pendingUrlStateRef = useRef(decodeUrlState(window.location.search));
+  const lastUrlWriteRef = useRef(0);
+  const isRestoringUrlRef = useRef(false);
+
+  // Applies link state on top of the defaults, ignoring anything the loaded file does not have
+  const applyUrlState = useCallback(
+    (state: UrlState | null, nextSectors: Sector[], nextSheets: YearSheet[]) => {
+      const defaultWeights = getDefaultSectorWeights(nextSectors);
+      const hasKnownWeights = Object.keys(state?.weights ?? {}).some((key) =>
+        nextSectors.some((sector) => sector.key === key),
+      );
 
-  useEffect(() => {
-    try {
-      const jsonData = parseXlsxData(BUILD_IN_XML);
-
-      setRawData(jsonData);
-      const processedData = processExcelData(jsonData, sectorWeights);
+      setSectorWeights(
+        state?.weights && hasKnownWeights
+          ? alignWeights(state.weights, nextSectors)
+          : defaultWeights,
+      );
+      setSelectedSector(
+        nextSectors.some((sector) => sector.key === state?.sector) ? state!.sector : null,
+      );
+      setSelectedCountry(state?.country ?? null);
+      setSelectedYear(
+        nextSheets.some((sheet) => sheet.year === state?.year)
+          ? state!.year
+          : (nextSheets[nextSheets.length - 1]?.year ?? null),
+      );
+      setMapView(state?.view ?? null);
+    },
+    [],
+  );
 
-      if (processedData.length === 0) {
-        setError('Failed to process data. Please check the file format and try again.');
+  // Rebuild the sector registry from the header rows and split the weights evenly across it
+  const loadSheets = useCallback(
+    (nextSheets: YearSheet[]) => {
+      const nextSectors = extractSectors(nextSheets.map((sheet) => sheet.rows));
+      const report = validateYearSheets(nextSheets);
+
+      setSheets(nextSheets);
+      setSectors(nextSectors);
+      applyUrlState(pendingUrlStateRef.current, nextSectors, nextSheets);
+      pendingUrlStateRef.current = null;
+      setActiveScenarioId(DEFAULT_SCENARIO_ID);
+      // Per-sector methods refer to the previous file's sectors
+      setNormalization((prev) => ({ ...prev, sectorMethods: {} }));
+      setImputation((prev) => ({ ...prev, sectorMethods: {} }));
+      setSkipInvalidRows(false);
+      setShowCountryResolver(true);
+      setValidationReport(report.issues.length > 0 ? report : null);
+
+      if (report.hasErrors) {
+        setError('The file has errors. See the validation report below for details.');
+        return;
+      }
+      if (nextSheets.length === 0 || report.emptyYears.length > 0) {
+        const failedLabel = report.emptyYears.join(', ');
+        setError(
+          `Failed to process data${failedLabel ? ` for ${failedLabel}` : ''}. Please check the file format and try again.`,
+        );
         return;
       }
 
-      setData(processedData);
       setError(null);
+    },
+    [applyUrlState],
+  );
+
+  useEffect(() => {
+    try {
+      loadSheets(parseXlsxData(BUILD_IN_XML));
     } catch (err) {
       console.error('File processing error:', err);
       setError(
         'Error reading file. Please ensure it is a valid Excel file with the correct format.',
       );
     }
-  }, []);
+  }, [loadSheets]);
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
@@ -51,54 +199,11 @@ function App() {
 
       reader.onload = (e) => {
         try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-
-          // Get the range of the worksheet
-          const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-
-          // Extract headers (sectors) from the first row
-          const headers: string[] = [];
-          for (let C = range.s.c + 1; C <= range.e.c; C++) {
-            const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: C })];
-            headers.push(cell?.v || '');
-          }
-
-          // Process each row into an object
-          const jsonData = [];
-          for (let R = range.s.r + 1; R <= range.e.r; R++) {
-            const countryCell = worksheet[XLSX.utils.encode_cell({ r: R, c: range.s.c })];
-            if (!countryCell) continue;
-
-            const row: any = {
-              Country: countryCell.v,
-            };
-
-            // Get values for each sector
-            headers.forEach((header, index) => {
-              const cell = worksheet[XLSX.utils.encode_cell({ r: R, c: index + 1 })];
-              row[header] = cell ? Number(cell.v) : 0;
-            });
-
-            jsonData.push(row);
-          }
-
-          setRawData(jsonData);
-          const processedData = processExcelData(jsonData, sectorWeights);
-
-          if (processedData.length === 0) {
-            setError('Failed to process data. Please check the file format and try again.');
-            return;
-          }
-
-          setData(processedData);
-          setError(null);
+          loadSheets(parseFile(e.target?.result as ArrayBuffer, file.name));
         } catch (err) {
           console.error('File processing error:', err);
           setError(
-            'Error reading file. Please ensure it is a valid Excel file with the correct format.',
+            'Error reading file. Please ensure it is a valid Excel, ODS, CSV, TSV or JSON file with the correct format.',
           );
         }
       };
@@ -107,31 +212,317 @@ function App() {
         setError('Error reading file. Please try again.');
       };
 
-      reader.readAsBinaryString(file);
+      reader.readAsArrayBuffer(file);
     },
-    [sectorWeights],
+    [loadSheets],
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls'],
-    },
+    accept: ACCEPTED_FILE_TYPES,
   });
 
   useEffect(() => {
-    if (rawData.length > 0) {
-      const processedData = processExcelData(rawData, sectorWeights);
-      setData(processedData);
+    if (sheets.length > 0) {
+      setYears(
+        processYearSheets(sheets, sectorWeights, {
+          skipInvalidRows,
+          countryOverrides,
+          normalization,
+          imputation,
+          aggregation,
+        }),
+      );
+    }
+  }, [
+    sectorWeights,
+    sheets,
+    skipInvalidRows,
+    countryOverrides,
+    normalization,
+    imputation,
+    aggregation,
+  ]);
+
+  useEffect(() => {
+    writeStorage(countryOverridesStorageKey, countryOverrides);
+  }, [countryOverrides]);
+
+  useEffect(() => {
+    writeStorage(scenariosStorageKey, savedScenarios);
+  }, [savedScenarios]);
+
+  useEffect(() => {
+    writeStorage(groupsStorageKey, customGroups);
+  }, [customGroups]);
+
+  const currentYear = useMemo(
+    () => years.find((year) => year.year === selectedYear) ?? years[years.length - 1],
+    [years, selectedYear],
+  );
+  const data = useMemo(() => currentYear?.data ?? [], [currentYear]);
+  const previousYear = currentYear?.previousYear ?? null;
+
+  const groups = useMemo(() => [...BUILT_IN_GROUPS, ...customGroups], [customGroups]);
+  const filterGroup = groups.find((group) => group.id === groupFilterId) ?? null;
+  const shownGroups = useMemo(
+    () => groups.filter((group) => shownGroupIds.includes(group.id)),
+    [groups, shownGroupIds],
+  );
+  // Group scores and ranks are always taken over the whole edition
+  const groupScores = useMemo(
+    () => scoreGroups(shownGroups, data, groupAggregation),
+    [shownGroups, data, groupAggregation],
+  );
+
+  // What the views show: every country, or only the members of the filter group
+  const visibleData = useMemo(() => filterByGroup(data, filterGroup), [data, filterGroup]);
+  const visibleYears = useMemo(
+    () =>
+      filterGroup
+        ? years.map((year) => ({ ...year, data: filterByGroup(year.data, filterGroup) }))
+        : years,
+    [years, filterGroup],
+  );
+
+  const urlSearch = useMemo(
+    () =>
+      encodeUrlState(
+        {
+          weights: sectorWeights,
+          sector: selectedSector,
+          country: selectedCountry,
+          year: currentYear?.year ?? null,
+          view: mapView,
+        },
+        data.find((d) => d.country === selectedCountry)?.countryCode ?? null,
+      ),
+    [sectorWeights, selectedSector, selectedCountry, currentYear?.year, mapView, data],
+  );
+
+  // Each change gets a history entry so back and forward step through them. Changes in quick
+  // succession (dragging a slider) replace the last entry instead of adding one per step.
+  useEffect(() => {
+    if (sheets.length === 0) return;
+    if (urlSearch === window.location.search) {
+      isRestoringUrlRef.current = false;
+      return;
+    }
+
+    // Only the query changes, so the GitHub Pages base path in the pathname is kept
+    const url = `${window.location.pathname}${urlSearch}${window.location.hash}`;
+    const now = Date.now();
+    const replace =
+      lastUrlWriteRef.current === 0 ||
+      isRestoringUrlRef.current ||
+      now - lastUrlWriteRef.current < 1000;
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
     }
-  }, [sectorWeights, rawData]);
+    lastUrlWriteRef.current = now;
+    isRestoringUrlRef.current = false;
+  }, [urlSearch, sheets.length]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      isRestoringUrlRef.current = true;
+      applyUrlState(decodeUrlState(window.location.search), sectors, sheets);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyUrlState, sectors, sheets]);
+
+  // Number of countries missing each sector in the current edition
+  const missingNotes = useMemo(() => {
+    const notes: Record<string, string> = {};
+    sectors.forEach((sector) => {
+      const count = data.filter((d) => d.imputedSectors[sector.key]).length;
+      if (count > 0) notes[sector.key] = `${count} missing`;
+    });
+    return notes;
+  }, [data, sectors]);
+
+  // Only store a new list when it changes, since the map reports it after every redraw
+  const handleUnmappedCountries = useCallback((countries: CountryData[]) => {
+    setUnmappedCountries((prev) =>
+      prev.length === countries.length && prev.every((d, i) => d.country === countries[i].country)
+        ? prev
+        : countries,
+    );
+  }, []);
+
+  // Countries in any edition that did not match the registry, plus the ones matched by hand so
+  // they can be reset
+  const unresolvedCountries = useMemo(() => {
+    const result = new Map<string, UnresolvedCountry>();
+    years
+      .flatMap((year) => year.data)
+      .forEach((d) => {
+        if (result.has(d.sourceName)) return;
+        if (d.countryCode === null) {
+          result.set(d.sourceName, {
+            sourceName: d.sourceName,
+            countryCode: null,
+            status: 'unrecognised',
+          });
+        } else if (countryOverrides[d.sourceName]) {
+          result.set(d.sourceName, {
+            sourceName: d.sourceName,
+            countryCode: d.countryCode,
+            status: 'overridden',
+          });
+        }
+      });
+    return Array.from(result.values());
+  }, [years, countryOverrides]);
+
+  // Matched countries the map has no shape for, such as small islands at the coarse resolution.
+  // There is nothing to fix, so they are only mentioned.
+  const undrawnCountries = useMemo(
+    () =>
+      unmappedCountries
+        .filter((d) => !countryOverrides[d.sourceName])
+        .map((d) => d.country)
+        .sort((a, b) => a.localeCompare(b)),
+    [unmappedCountries, countryOverrides],
+  );
+
+  const handleCountryOverride = (sourceName: string, countryCode: string | null) => {
+    setCountryOverrides((prev) => {
+      const { [sourceName]: _removed, ...rest } = prev;
+      return countryCode ? { ...rest, [sourceName]: countryCode } : rest;
+    });
+  };
+
+  // Saved scenarios are aligned to the loaded sectors; the default one is always first
+  const scenarios = useMemo(
+    () => [
+      getDefaultScenario(sectors),
+      ...savedScenarios.map((scenario) => ({
+        ...scenario,
+        weights: alignWeights(scenario.weights, sectors),
+      })),
+    ],
+    [sectors, savedScenarios],
+  );
+  const activeScenario =
+    scenarios.find((scenario) => scenario.id === activeScenarioId) ?? scenarios[0];
+  const isScenarioModified = !areWeightsEqual(sectorWeights, activeScenario.weights);
+
+  // The current edition up to the weighting step, so what-if tools only redo the scoring
+  const preparedData = useMemo(() => {
+    const sheet = sheets.find((s) => s.year === currentYear?.year);
+    if (!sheet) return [];
+    return prepareCountryData(
+      sheet.rows,
+      sectors.map((sector) => sector.key),
+      { skipInvalidRows, countryOverrides, normalization, imputation },
+    );
+  }, [
+    sheets,
+    currentYear?.year,
+    sectors,
+    skipInvalidRows,
+    countryOverrides,
+    normalization,
+    imputation,
+  ]);
+
+  const rankWithWeights = useCallback(
+    (weights: SectorWeightsType) => scoreCountryData(preparedData, weights, aggregation),
+    [preparedData, aggregation],
+  );
+  const rankVisibleWithWeights = useCallback(
+    (weights: SectorWeightsType) => filterByGroup(rankWithWeights(weights), filterGroup),
+    [rankWithWeights, filterGroup],
+  );
+
+  // Sampled ranks no longer apply once the data behind them changes
+  useEffect(() => {
+    setSensitivity(null);
+  }, [preparedData, aggregation]);
+
+  const handleScenarioSelect = (id: string) => {
+    const scenario = scenarios.find((s) => s.id === id);
+    if (!scenario) return;
+    setActiveScenarioId(id);
+    setSectorWeights(scenario.weights);
+  };
 
-  const handleSectorWeightChange = (sector: string, value: number) => {
-    setSectorWeights((prev) => ({
+  const handleScenarioSave = () => {
+    setSavedScenarios((prev) =>
+      prev.map((scenario) =>
+        scenario.id === activeScenarioId ? { ...scenario, weights: sectorWeights } : scenario,
+      ),
+    );
+  };
+
+  const handleScenarioSaveAs = (name: string) => {
+    const scenario = { id: createScenarioId(), name, weights: sectorWeights };
+    setSavedScenarios((prev) => [...prev, scenario]);
+    setActiveScenarioId(scenario.id);
+  };
+
+  const handleScenarioRename = (id: string, name: string) => {
+    setSavedScenarios((prev) =>
+      prev.map((scenario) => (scenario.id === id ? { ...scenario, name } : scenario)),
+    );
+  };
+
+  const handleScenarioDuplicate = (id: string) => {
+    const source = scenarios.find((scenario) => scenario.id === id);
+    if (!source) return;
+    setSavedScenarios((prev) => [
       ...prev,
-      [sector]: value,
-    }));
+      {
+        id: createScenarioId(),
+        name: getCopyName(source.name, scenarios),
+        weights: source.weights,
+      },
+    ]);
+  };
+
+  const handleScenarioDelete = (id: string) => {
+    setSavedScenarios((prev) => prev.filter((scenario) => scenario.id !== id));
+    if (id === activeScenarioId) setActiveScenarioId(DEFAULT_SCENARIO_ID);
+  };
+
+  const handleExport = () => {
+    if (!currentYear) return;
+    const csv = buildResultsCsv(data, {
+      sectors,
+      weights: sectorWeights,
+      normalization,
+      aggregation,
+    });
+    downloadFile(csv, `dets-results-${currentYear.year}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleGroupSave = (group: CountryGroup) => {
+    setCustomGroups((prev) =>
+      prev.some((existing) => existing.id === group.id)
+        ? prev.map((existing) => (existing.id === group.id ? group : existing))
+        : [...prev, group],
+    );
+  };
+
+  const handleGroupDelete = (id: string) => {
+    setCustomGroups((prev) => prev.filter((group) => group.id !== id));
+    setShownGroupIds((prev) => prev.filter((groupId) => groupId !== id));
+    if (id === groupFilterId) setGroupFilterId(null);
+  };
+
+  const handleGroupToggle = (id: string) => {
+    setShownGroupIds((prev) =>
+      prev.includes(id) ? prev.filter((groupId) => groupId !== id) : [...prev, id],
+    );
+  };
+
+  const handleLoadAnyway = () => {
+    setSkipInvalidRows(true);
+    setError(null);
   };
 
   const handleSectorSelect = (sector: string | null) => {
@@ -182,6 +573,17 @@ function App() {
         </div>
       )}
 
+      {validationReport && (
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <ValidationReport
+            report={validationReport}
+            isSkippingInvalidRows={skipInvalidRows}
+            onLoadAnyway={handleLoadAnyway}
+            onDismiss={() => setValidationReport(null)}
+          />
+        </div>
+      )}
+
       {data.length === 0 ? (
         <div className="max-w-7xl mx-auto px-4 py-6">
           <div
@@ -192,10 +594,12 @@ function App() {
             <Upload className="w-12 h-12 mx-auto text-gray-400 mb-4" />
             <p className="text-lg text-gray-600">
               {isDragActive
-                ? 'Drop the Excel file here...'
+                ? 'Drop the data file here...'
                 : 'Drag and drop the Belfer_DETS_Index_dashboard_test.xlsx file here, or click to select it'}
             </p>
-            <p className="text-sm text-gray-500 mt-2">Only .xlsx or .xls files are accepted</p>
+            <p className="text-sm text-gray-500 mt-2">
+              Excel (.xlsx, .xls), OpenDocument (.ods), CSV, TSV and JSON files are accepted
+            </p>
           </div>
         </div>
       ) : (
@@ -203,9 +607,91 @@ function App() {
           <div className="flex gap-6">
             {/* Left Panel - Sector Weights */}
             <div className="w-80 flex-shrink-0">
-              <div className="bg-white rounded-lg shadow-sm p-6 sticky top-6">
+              <div className="bg-white rounded-lg shadow-sm p-6 sticky top-6 max-h-[calc(100vh-3rem)] overflow-y-auto">
+                {years.length > 1 && (
+                  <div className="mb-6">
+                    <h2 className="text-xl font-semibold mb-4">Edition</h2>
+                    <div className="flex flex-wrap gap-2">
+                      {years.map((year) => (
+                        <button
+                          key={year.year}
+                          onClick={() => setSelectedYear(year.year)}
+                          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                            year.year === currentYear?.year
+                              ? 'bg-blue-500 text-white'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          {year.year}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Normalization</h2>
+                  <SectorMethodControls
+                    sectors={sectors}
+                    methods={NORMALIZATION_METHODS}
+                    settings={normalization}
+                    onChange={setNormalization}
+                    summary={`Composite built from: ${describeNormalization(normalization, sectors)}`}
+                  />
+                </div>
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Missing Values</h2>
+                  {Object.keys(missingNotes).length === 0 && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      No values are missing in this edition.
+                    </p>
+                  )}
+                  <SectorMethodControls
+                    sectors={sectors}
+                    methods={IMPUTATION_METHODS}
+                    settings={imputation}
+                    onChange={setImputation}
+                    sectorNotes={missingNotes}
+                  />
+                </div>
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Aggregation</h2>
+                  <AggregationSelector method={aggregation} onChange={setAggregation} />
+                </div>
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Country Groups</h2>
+                  <GroupManager
+                    groups={groups}
+                    data={data}
+                    shownGroupIds={shownGroupIds}
+                    onToggleShown={handleGroupToggle}
+                    filterGroupId={groupFilterId}
+                    onFilterChange={setGroupFilterId}
+                    aggregation={groupAggregation}
+                    onAggregationChange={setGroupAggregation}
+                    onSave={handleGroupSave}
+                    onDelete={handleGroupDelete}
+                  />
+                </div>
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Scenarios</h2>
+                  <ScenarioManager
+                    scenarios={scenarios}
+                    activeScenarioId={activeScenario.id}
+                    isModified={isScenarioModified}
+                    onSelect={handleScenarioSelect}
+                    onSave={handleScenarioSave}
+                    onSaveAs={handleScenarioSaveAs}
+                    onRename={handleScenarioRename}
+                    onDuplicate={handleScenarioDuplicate}
+                    onDelete={handleScenarioDelete}
+                  />
+                </div>
                 <h2 className="text-xl font-semibold mb-4">Sector Weights</h2>
-                <SectorWeights weights={sectorWeights} onChange={handleSectorWeightChange} />
+                <SectorWeights
+                  sectors={sectors}
+                  weights={sectorWeights}
+                  onChange={setSectorWeights}
+                />
               </div>
             </div>
 
@@ -213,25 +699,78 @@ function App() {
             <div className="flex-grow space-y-6">
               {/* World Map */}
               <div className="bg-white rounded-lg shadow-sm p-6">
-                <h2 className="text-xl font-semibold mb-4">Global View</h2>
-                <WorldMap
-                  data={data}
-                  selectedSector={selectedSector}
-                  selectedCountry={selectedCountry}
-                  onCountrySelect={handleCountrySelect}
-                />
+                <div className="flex items-end justify-between gap-4 mb-4">
+                  <div className="space-y-2">
+                    <h2 className="text-xl font-semibold">Global View</h2>
+                    <div className="flex rounded-md bg-gray-100 p-1 w-fit">
+                      {(['single', 'sectors'] as const).map((layout) => (
+                        <button
+                          key={layout}
+                          onClick={() => setMapLayout(layout)}
+                          className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                            mapLayout === layout
+                              ? 'bg-white text-gray-900 shadow-sm'
+                              : 'text-gray-600 hover:text-gray-900'
+                          }`}
+                        >
+                          {layout === 'single' ? 'Single map' : 'Map per sector'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <ColorSchemeControls scheme={colorScheme} onChange={setColorScheme} />
+                </div>
+                {mapLayout === 'sectors' ? (
+                  <SectorMaps
+                    data={visibleData}
+                    sectors={sectors}
+                    colorScheme={colorScheme}
+                    selectedCountry={selectedCountry}
+                    onCountrySelect={handleCountrySelect}
+                  />
+                ) : (
+                  <WorldMap
+                    data={visibleData}
+                    sectors={sectors}
+                    previousYear={previousYear}
+                    selectedSector={selectedSector}
+                    selectedCountry={selectedCountry}
+                    onCountrySelect={handleCountrySelect}
+                    aggregation={aggregation}
+                    colorScheme={colorScheme}
+                    outlinedGroups={shownGroups}
+                    onUnmappedCountries={handleUnmappedCountries}
+                    view={mapView}
+                    onViewChange={setMapView}
+                  />
+                )}
               </div>
 
+              {showCountryResolver &&
+                unresolvedCountries.some((country) => country.status !== 'overridden') && (
+                  <CountryResolver
+                    countries={unresolvedCountries}
+                    undrawnCountries={undrawnCountries}
+                    overrides={countryOverrides}
+                    onOverride={handleCountryOverride}
+                    onDismiss={() => setShowCountryResolver(false)}
+                  />
+                )}
+
               {/* Charts Section */}
               <div className="grid grid-cols-5 gap-6">
                 {/* Bar Chart (3 columns) */}
                 <div className="col-span-3 bg-white rounded-lg shadow-sm p-6">
                   <h2 className="text-xl font-semibold mb-4">Country Rankings</h2>
                   <BarChart
-                    data={data}
+                    data={visibleData}
+                    sectors={sectors}
+                    previousYear={previousYear}
+                    aggregation={aggregation}
                     selectedSector={selectedSector}
                     selectedCountry={selectedCountry}
                     onCountrySelect={handleCountrySelect}
+                    groups={groupScores}
                   />
                 </div>
 
@@ -241,8 +780,11 @@ function App() {
                   <div className="relative" style={{ height: '400px' }}>
                     <PieChart
                       data={
-                        selectedCountry ? data.filter((d) => d.country === selectedCountry) : data
+                        selectedCountry
+                          ? visibleData.filter((d) => d.country === selectedCountry)
+                          : visibleData
                       }
+                      sectors={sectors}
                       selectedSector={selectedSector}
                       onSectorSelect={handleSectorSelect}
                     />
@@ -250,19 +792,133 @@ function App() {
                 </div>
               </div>
 
+              {/* Country Comparison */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold mb-4">Country Comparison</h2>
+                <RadarChart
+                  data={visibleData}
+                  sectors={sectors}
+                  countries={comparedCountries}
+                  onCountriesChange={setComparedCountries}
+                  selectedCountry={selectedCountry}
+                />
+              </div>
+
+              {/* Sector Relationships */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold mb-4">Sector Relationships</h2>
+                <ScatterPlot
+                  data={visibleData}
+                  sectors={sectors}
+                  aggregation={aggregation}
+                  selectedCountry={selectedCountry}
+                  onCountrySelect={handleCountrySelect}
+                />
+              </div>
+
+              {/* Trends */}
+              {years.length > 1 && (
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <h2 className="text-xl font-semibold mb-4">Trends Across Editions</h2>
+                  <TrendChart
+                    years={visibleYears}
+                    sectors={sectors}
+                    selectedCountry={selectedCountry}
+                    onCountrySelect={handleCountrySelect}
+                  />
+                </div>
+              )}
+
+              {/* Scenario Comparison */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold mb-4">Scenario Comparison</h2>
+                <ScenarioComparison
+                  scenarios={scenarios}
+                  currentWeights={sectorWeights}
+                  rankWithWeights={rankVisibleWithWeights}
+                  selectedCountry={selectedCountry}
+                  onCountrySelect={handleCountrySelect}
+                />
+              </div>
+
+              {/* Sensitivity Analysis */}
+              {currentYear && (
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <h2 className="text-xl font-semibold mb-4">Weight Sensitivity</h2>
+                  <SensitivityPanel
+                    data={visibleData}
+                    preparedData={preparedData}
+                    sectors={sectors}
+                    weights={sectorWeights}
+                    year={currentYear.year}
+                    aggregation={aggregation}
+                    result={sensitivity}
+                    onResult={setSensitivity}
+                    selectedCountry={selectedCountry}
+                    onCountrySelect={handleCountrySelect}
+                  />
+                </div>
+              )}
+
+              {/* Weight Solver */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold mb-4">What Would It Take?</h2>
+                <WeightSolver
+                  data={data}
+                  preparedData={preparedData}
+                  sectors={sectors}
+                  weights={sectorWeights}
+                  selectedCountry={selectedCountry}
+                  aggregation={aggregation}
+                  onApply={setSectorWeights}
+                />
+              </div>
+
               {/* Data Table */}
               <div className="bg-white rounded-lg shadow-sm p-6">
-                <h2 className="text-xl font-semibold mb-4">Data Table</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold">Data Table</h2>
+                  <button
+                    onClick={handleExport}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-gray-700 text-sm transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export CSV
+                  </button>
+                </div>
                 <DataTable
-                  data={data}
+                  data={visibleData}
+                  sectors={sectors}
+                  previousYear={previousYear}
+                  aggregation={aggregation}
+                  colorScheme={colorScheme}
                   selectedSector={selectedSector}
                   selectedCountry={selectedCountry}
+                  sensitivity={
+                    currentYear &&
+                    isSensitivityCurrent(sensitivity, sectorWeights, currentYear.year)
+                      ? sensitivity
+                      : null
+                  }
+                  groups={groupScores}
+                  groupAggregation={groupAggregation}
                 />
               </div>
             </div>
           </div>
         </div>
       )}
+
+      <CountryProfileDrawer
+        data={data}
+        sectors={sectors}
+        previousYear={previousYear}
+        aggregation={aggregation}
+        groups={groups}
+        rankWithWeights={rankWithWeights}
+        selectedCountry={selectedCountry}
+        onCountrySelect={handleCountrySelect}
+      />
     </div>
   );
 }
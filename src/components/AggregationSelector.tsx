@@ -0,0 +1,37 @@
+import React from 'react';
+import type { AggregationMethod } from '../types';
+import { AGGREGATION_METHODS, getAggregationInfo } from '../utils/aggregation';
+
+interface Props {
+  method: AggregationMethod;
+  onChange: (method: AggregationMethod) => void;
+}
+
+const AggregationSelector: React.FC<Props> = ({ method, onChange }) => {
+  const info = getAggregationInfo(method);
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={method}
+        onChange={(e) => onChange(e.target.value as AggregationMethod)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+      >
+        {AGGREGATION_METHODS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <div className="p-3 rounded-md bg-gray-50 border border-gray-200 text-xs text-gray-600 space-y-2">
+        <div className="font-mono text-sm text-gray-800">{info.formula}</div>
+        <p>{info.description}</p>
+        <p className="text-gray-500">
+          xᵢ is the normalized value of sector i, wᵢ its weight and W the total weight.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AggregationSelector;
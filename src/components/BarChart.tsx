@@ -1,42 +1,236 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import type { CountryData } from '../types';
-import { sectorColors, sectorNames } from '../utils/constants';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { AggregationMethod, CountryData, GroupScore, Sector } from '../types';
+import {
+  DEFAULT_AGGREGATION,
+  getTotalScoreLabel,
+  isAdditiveAggregation,
+} from '../utils/aggregation';
+import { describeRankChange } from '../utils/dataProcessing';
+import { formatImputedNote } from '../utils/imputation';
+import { getSectorColor, getSectorName } from '../utils/sectors';
 
 interface Props {
   data: CountryData[];
+  sectors: Sector[];
+  previousYear?: string | null;
+  aggregation?: AggregationMethod;
   selectedSector: string | null;
   selectedCountry: string | null;
   onCountrySelect: (country: string | null) => void;
+  // Group aggregates, drawn as outlined bars among the countries
+  groups?: GroupScore[];
 }
 
-const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCountrySelect }) => {
+type BarItem = CountryData | GroupScore;
+
+function isGroupScore(item: BarItem): item is GroupScore {
+  return 'group' in item;
+}
+
+function getBarLabel(item: BarItem): string {
+  return isGroupScore(item) ? item.group.name : item.country;
+}
+
+// Countries and groups can share a name, so rows are keyed by kind as well
+function getBarKey(item: BarItem): string {
+  return isGroupScore(item) ? `group:${item.group.id}` : `country:${item.country}`;
+}
+
+interface BarRow {
+  item: BarItem;
+  // Position among the countries in the current sort order; groups show where they would rank
+  position: number;
+  // The selected country, added below the page when it falls outside it
+  isPinned: boolean;
+}
+
+type BarMode = 'stacked' | 'percent' | 'grouped';
+
+const BAR_MODES: { value: BarMode; label: string; description: string }[] = [
+  {
+    value: 'stacked',
+    label: 'Stacked',
+    description: 'Each bar adds up the weighted sector scores.',
+  },
+  {
+    value: 'percent',
+    label: '100%',
+    description: "Each bar shows the share of the country's score that comes from each sector.",
+  },
+  {
+    value: 'grouped',
+    label: 'Grouped',
+    description: 'One bar per sector from a common zero, to compare a sector across countries.',
+  },
+];
+
+// One sector's bar for one row: a slice of the stack, or a bar of its own in grouped mode
+interface BarSegment {
+  data: BarItem;
+  key: string;
+  x0: number;
+  x1: number;
+  // Position of the sector among the shown ones, which orders the grouped bars
+  slot: number;
+}
+
+interface BarLayer {
+  key: string;
+  segments: BarSegment[];
+}
+
+// Null shows every country in one scrolling list
+const PAGE_SIZES: { value: number | null; label: string }[] = [
+  { value: 10, label: 'Top 10' },
+  { value: 25, label: 'Top 25' },
+  { value: 50, label: 'Top 50' },
+  { value: null, label: 'All' },
+];
+
+const ROW_HEIGHT = 24;
+// Space above the pinned row, where a dashed line separates it from the page
+const PINNED_GAP = 16;
+const MAX_LABEL_LENGTH = 24;
+
+const BarChart: React.FC<Props> = ({
+  data,
+  sectors: sectorRegistry,
+  previousYear = null,
+  aggregation = DEFAULT_AGGREGATION,
+  selectedSector,
+  selectedCountry,
+  onCountrySelect,
+  groups = [],
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [sortKey, setSortKey] = useState<string | null>(null);
+  const [pageSize, setPageSize] = useState<number | null>(25);
+  const [page, setPage] = useState(0);
+  const [mode, setMode] = useState<BarMode>('stacked');
+  const [hiddenSectors, setHiddenSectors] = useState<string[]>([]);
+
+  // Null sorts by the total score, also after the sorted sector was removed
+  const sortSector =
+    sortKey && sectorRegistry.some((sector) => sector.key === sortKey) ? sortKey : null;
+
+  const { rows, pageCount, currentPage, firstPosition, lastPosition } = useMemo(() => {
+    const getSortValue = (item: BarItem) =>
+      sortSector ? (item.sectorScores[sortSector] ?? 0) : item.totalScore;
+    const countries = [...data].sort((a, b) => getSortValue(b) - getSortValue(a));
+    // Ties share a position, as in the overall ranking
+    const getPosition = (item: BarItem) =>
+      !sortSector && !isGroupScore(item)
+        ? item.rank
+        : 1 + countries.filter((country) => getSortValue(country) > getSortValue(item)).length;
+
+    const size = pageSize ?? Math.max(countries.length, 1);
+    const pageCount = Math.max(1, Math.ceil(countries.length / size));
+    const currentPage = Math.min(page, pageCount - 1);
+    const start = currentPage * size;
+    const end = Math.min(start + size, countries.length);
+    const pageCountries = countries.slice(start, end);
+
+    // A group is shown on the page where it would slot in among the countries
+    const pageGroups = groups.filter((group) => {
+      const index = countries.filter(
+        (country) => getSortValue(country) > getSortValue(group),
+      ).length;
+      return index >= start && (index < end || currentPage === pageCount - 1);
+    });
+
+    const rows: BarRow[] = [...pageCountries, ...pageGroups]
+      .sort((a, b) => getSortValue(b) - getSortValue(a))
+      .map((item) => ({ item, position: getPosition(item), isPinned: false }));
+
+    const selected = countries.find((country) => country.country === selectedCountry);
+    if (selected && !pageCountries.includes(selected)) {
+      rows.push({ item: selected, position: getPosition(selected), isPinned: true });
+    }
+
+    return {
+      rows,
+      pageCount,
+      currentPage,
+      firstPosition: start + 1,
+      lastPosition: end,
+    };
+  }, [data, groups, sortSector, pageSize, page, selectedCountry]);
 
   useEffect(() => {
-    if (!svgRef.current || !data.length || !containerRef.current) return;
+    if (!svgRef.current || !containerRef.current) return;
+
+    // Sectors shown, in registry order
+    const sectors = sectorRegistry
+      .map((sector) => sector.key)
+      .filter((key) => !hiddenSectors.includes(key));
 
     const width = svgRef.current.clientWidth;
-    const height = 400;
-    const margin = { top: 40, right: 100, bottom: 60, left: 60 };
+    // Grouped rows need room for a thin bar per sector
+    const rowHeight =
+      mode === 'grouped' ? Math.max(ROW_HEIGHT, sectors.length * 8 + 6) : ROW_HEIGHT;
+    const margin = { top: 30, right: 20, bottom: 10, left: 190 };
     const innerWidth = width - margin.left - margin.right;
-    const innerHeight = height - margin.top - margin.bottom;
-
-    // Sort data by total score
-    const sortedData = [...data].sort((a, b) => b.totalScore - a.totalScore);
-
-    // Get all sectors
-    const sectors = Object.keys(sortedData[0].sectorScores);
-
-    // Prepare data for stacking
-    const stackData = d3
-      .stack<CountryData>()
-      .keys(sectors)
-      .value((d, key) => d.sectorScores[key])(sortedData);
-
-    const svg = d3.select(svgRef.current);
+    const hasPinned = rows.some((row) => row.isPinned);
+    const innerHeight = rows.length * rowHeight + (hasPinned ? PINNED_GAP : 0);
+    const height = innerHeight + margin.top + margin.bottom;
+
+    const items = rows.map((row) => row.item);
+    const rowY = new Map(
+      rows.map((row, i) => [getBarKey(row.item), i * rowHeight + (row.isPinned ? PINNED_GAP : 0)]),
+    );
+    const barHeight = rowHeight * 0.75;
+    const getBarY = (item: BarItem) => rowY.get(getBarKey(item))! + (rowHeight - barHeight) / 2;
+    const segmentHeight = mode === 'grouped' ? barHeight / Math.max(sectors.length, 1) : barHeight;
+    const getSegmentY = (d: BarSegment) =>
+      getBarY(d.data) + (mode === 'grouped' ? d.slot * segmentHeight : 0);
+
+    // When the sector scores do not add up to the total, the bar shows the total and each
+    // segment the sector's share of the weighted values
+    const isAdditive = isAdditiveAggregation(aggregation);
+    const getSegmentValue = (d: BarItem, key: string) => {
+      if (isAdditive) return d.sectorScores[key] ?? 0;
+      const sum = d3.sum(sectors, (sector) => d.sectorScores[sector] ?? 0);
+      return sum === 0 ? 0 : ((d.sectorScores[key] ?? 0) / sum) * d.totalScore;
+    };
+
+    // Negative sector values (z-scores) have no share of their own, so the 100% bars split the
+    // absolute values
+    const getShare = (d: BarItem, key: string) => {
+      const sum = d3.sum(sectors, (sector) => Math.abs(getSegmentValue(d, sector)));
+      return sum === 0 ? 0 : Math.abs(getSegmentValue(d, key)) / sum;
+    };
+
+    const layerData: BarLayer[] =
+      mode === 'grouped'
+        ? sectors.map((key, slot) => ({
+            key,
+            segments: items.map((d) => {
+              const value = d.sectorScores[key] ?? 0;
+              return { data: d, key, slot, x0: Math.min(0, value), x1: Math.max(0, value) };
+            }),
+          }))
+        : d3
+            .stack<BarItem>()
+            .keys(sectors)
+            .value((d, key) => (mode === 'percent' ? getShare(d, key) : getSegmentValue(d, key)))
+            // Negative scores (z-scores, penalized totals) stack downwards from zero
+            .offset(d3.stackOffsetDiverging)(items)
+            .map((layer, slot) => ({
+              key: layer.key,
+              segments: layer.map((point) => ({
+                data: point.data,
+                key: layer.key,
+                slot,
+                x0: point[0],
+                x1: point[1],
+              })),
+            }));
+
+    const svg = d3.select(svgRef.current).attr('height', height);
 
     // Only clear if no previous elements exist
     if (svg.select('g').empty()) {
@@ -48,26 +242,28 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
 
     // Create scales
     const x = d3
-      .scaleBand()
-      .domain(sortedData.map((d) => d.country))
-      .range([0, innerWidth])
-      .padding(0.1);
-
-    const y = d3
       .scaleLinear()
-      .domain([0, d3.max(stackData[stackData.length - 1], (d) => d[1]) || 0])
-      .range([innerHeight, 0]);
-
-    // Update axes with transitions
-    const xAxis = g.select('.x-axis');
+      .domain(
+        mode === 'percent'
+          ? [0, 1]
+          : [
+              Math.min(0, d3.min(layerData, (layer) => d3.min(layer.segments, (d) => d.x0)) ?? 0),
+              d3.max(layerData, (layer) => d3.max(layer.segments, (d) => d.x1)) || 0,
+            ],
+      )
+      .range([0, innerWidth]);
+    const axis = d3
+      .axisTop(x)
+      .ticks(6)
+      .tickFormat(mode === 'percent' ? d3.format('.0%') : (d) => d.toString());
+
+    // The score axis runs along the top, where it stays in view at the start of a long list
+    const xAxis = g.select<SVGGElement>('.x-axis');
     if (xAxis.empty()) {
       g.append('g')
         .attr('class', 'x-axis')
-        .attr('transform', `translate(0,${innerHeight})`)
-        .call(d3.axisBottom(x))
+        .call(axis)
         .selectAll('text')
-        .attr('transform', 'rotate(-45)')
-        .style('text-anchor', 'end')
         .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
         .style('font-size', '11px')
         .style('font-weight', '500');
@@ -75,44 +271,94 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       xAxis
         .transition()
         .duration(750)
-        .call(d3.axisBottom(x))
+        .call(axis)
         .selectAll('text')
-        .attr('transform', 'rotate(-45)')
-        .style('text-anchor', 'end')
         .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
         .style('font-size', '11px')
         .style('font-weight', '500');
     }
 
-    const yAxis = g.select('.y-axis');
-    if (yAxis.empty()) {
-      g.append('g')
-        .attr('class', 'y-axis')
-        .call(
-          d3
-            .axisLeft(y)
-            .ticks(8)
-            .tickFormat((d) => d.toString()),
-        )
-        .selectAll('text')
-        .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
-        .style('font-size', '11px')
-        .style('font-weight', '500');
-    } else {
-      yAxis
-        .transition()
-        .duration(750)
-        .call(
-          d3
-            .axisLeft(y)
-            .ticks(8)
-            .tickFormat((d) => d.toString()),
-        )
-        .selectAll('text')
-        .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
-        .style('font-size', '11px')
-        .style('font-weight', '500');
-    }
+    // Zero line for negative scores, which extend to the left
+    const zeroLine = g.selectAll<SVGLineElement, number>('line.zero-line').data([x(0)]);
+    zeroLine
+      .enter()
+      .append('line')
+      .attr('class', 'zero-line')
+      .style('stroke', '#cbd5e0')
+      .merge(zeroLine)
+      .attr('x1', (d) => d)
+      .attr('x2', (d) => d)
+      .attr('y1', 0)
+      .attr('y2', innerHeight);
+
+    // Rank and name of every row; clicking a country's name selects it like its bar
+    const labels = g
+      .selectAll<SVGGElement, BarRow>('g.row-label')
+      .data(rows, (row) => getBarKey(row.item));
+    labels.exit().remove();
+    const labelsEnter = labels
+      .enter()
+      .append('g')
+      .attr('class', 'row-label')
+      .attr('transform', (row) => `translate(0,${rowY.get(getBarKey(row.item))! + rowHeight / 2})`)
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '11px');
+    labelsEnter
+      .append('text')
+      .attr('class', 'rank')
+      .attr('x', -margin.left + 4)
+      .attr('dy', '0.35em')
+      .style('fill', '#718096');
+    labelsEnter
+      .append('text')
+      .attr('class', 'name')
+      .attr('x', -8)
+      .attr('dy', '0.35em')
+      .style('text-anchor', 'end');
+    labelsEnter.append('title');
+
+    const labelsMerge = labels.merge(labelsEnter);
+    labelsMerge
+      .transition()
+      .duration(750)
+      .attr('transform', (row) => `translate(0,${rowY.get(getBarKey(row.item))! + rowHeight / 2})`);
+    labelsMerge
+      .select('text.rank')
+      .text((row) => `${isGroupScore(row.item) ? '≈' : ''}#${row.position}`);
+    labelsMerge
+      .select('text.name')
+      .text((row) => {
+        const label = getBarLabel(row.item);
+        return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+      })
+      .style('font-weight', (row) =>
+        isGroupScore(row.item) || getBarLabel(row.item) === selectedCountry ? '700' : '500',
+      )
+      .style('fill', (row) => (isGroupScore(row.item) ? row.item.group.color : '#2D3748'));
+    labelsMerge.select('title').text((row) => getBarLabel(row.item));
+    labelsMerge
+      .style('cursor', (row) => (isGroupScore(row.item) ? null : 'pointer'))
+      .on('click', (_, row) => {
+        if (isGroupScore(row.item)) return;
+        onCountrySelect(row.item.country === selectedCountry ? null : row.item.country);
+      });
+
+    // Dashed line between the page and the selected country pinned below it
+    const separator = g
+      .selectAll<SVGLineElement, number>('line.pinned-separator')
+      .data(hasPinned ? [innerHeight - rowHeight - PINNED_GAP / 2] : []);
+    separator.exit().remove();
+    separator
+      .enter()
+      .append('line')
+      .attr('class', 'pinned-separator')
+      .attr('x1', -margin.left)
+      .style('stroke', '#cbd5e0')
+      .style('stroke-dasharray', '4,3')
+      .merge(separator)
+      .attr('x2', innerWidth)
+      .attr('y1', (d) => d)
+      .attr('y2', (d) => d);
 
     // Style the axis lines and ticks
     svg.selectAll('.domain, .tick line').style('stroke', '#cbd5e0').style('stroke-width', '1px');
@@ -133,20 +379,25 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       .style('z-index', '1000')
       .style('min-width', '220px');
 
-    // Update stacked bars with transitions
-    const layers = g.selectAll('g.layer').data(stackData);
+    // One layer per shown sector; a hidden sector's bars shrink away
+    const layers = g.selectAll<SVGGElement, BarLayer>('g.layer').data(layerData, (d) => d.key);
 
-    // Remove old layers
-    layers.exit().remove();
+    layers.exit().selectAll('rect').transition().duration(750).attr('x', x(0)).attr('width', 0);
+    layers.exit().transition().duration(750).remove();
 
-    // Add new layers
     const layersEnter = layers.enter().append('g').attr('class', 'layer');
 
-    // Merge existing and new layers
-    const layersMerge = layers.merge(layersEnter).style('fill', (d, i) => sectorColors[sectors[i]]);
+    // Merge existing and new layers, keeping the registry order
+    const layersMerge = layers
+      .merge(layersEnter)
+      .style('fill', (d) => getSectorColor(sectorRegistry, d.key))
+      .order();
 
     // Update rectangles with transitions
-    const rects = layersMerge.selectAll('rect').data((d) => d);
+    const rects = layersMerge.selectAll<SVGRectElement, BarSegment>('rect').data(
+      (d) => d.segments,
+      (d) => getBarKey(d.data),
+    );
 
     // Remove old rectangles
     rects.exit().remove();
@@ -155,37 +406,45 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
     const rectsEnter = rects
       .enter()
       .append('rect')
-      .attr('x', (d) => x(d.data.country) || 0)
-      .attr('y', innerHeight)
-      .attr('height', 0)
-      .attr('width', x.bandwidth());
+      .attr('x', x(0))
+      .attr('y', getSegmentY)
+      .attr('width', 0)
+      .attr('height', segmentHeight);
+
+    // Group bars are outlined in the group's color
+    const getStroke = (d: BarSegment) => (isGroupScore(d.data) ? d.data.group.color : 'none');
 
-    // Merge and transition all rectangles
+    const getOpacity = (d: BarSegment) => {
+      if (selectedCountry && getBarLabel(d.data) !== selectedCountry) return 0.3;
+      if (selectedSector && d.key !== selectedSector) return 0.3;
+      return 1;
+    };
+
+    // Merge and transition all rectangles; switching modes moves the bars to their new place
     rects
       .merge(rectsEnter)
+      .style('stroke', getStroke)
+      .style('stroke-width', '1.5px')
+      .style('stroke-dasharray', (d) => (isGroupScore(d.data) ? '4,2' : null))
       .transition()
       .duration(750)
       .ease(d3.easeQuadOut)
-      .attr('x', (d) => x(d.data.country) || 0)
-      .attr('y', (d) => y(d[1]))
-      .attr('height', (d) => y(d[0]) - y(d[1]))
-      .attr('width', x.bandwidth())
-      .style('opacity', (d, i, nodes) => {
-        const currentSector = sectors[d3.select(nodes[i].parentNode).datum().index];
-        if (selectedCountry && d.data.country !== selectedCountry) return 0.3;
-        if (selectedSector && currentSector !== selectedSector) return 0.3;
-        return 1;
-      });
+      .attr('x', (d) => x(d.x0))
+      .attr('y', getSegmentY)
+      .attr('width', (d) => x(d.x1) - x(d.x0))
+      .attr('height', segmentHeight)
+      .style('opacity', getOpacity);
 
     // Add interactivity
     layersMerge
-      .selectAll('rect')
+      .selectAll<SVGRectElement, BarSegment>('rect')
       .style('cursor', 'pointer')
-      .on('click', (event, d) => {
+      .on('click', (_, d) => {
+        if (isGroupScore(d.data)) return;
         onCountrySelect(d.data.country === selectedCountry ? null : d.data.country);
       })
       .on('mouseover', (event, d) => {
-        const hoveredSector = sectors[d3.select(event.currentTarget.parentNode).datum().index];
+        const hoveredSector = d.key;
 
         // Generate HTML for all sectors with the hovered one highlighted
         const sectorsHtml = Object.entries(d.data.sectorScores)
@@ -205,15 +464,19 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
                 <div style="
                   width: 12px; 
                   height: 12px; 
-                  background-color: ${sectorColors[sector]}; 
+                  background-color: ${getSectorColor(sectorRegistry, sector)}; 
                   margin-right: 8px; 
                   border-radius: 2px;
                 "></div>
                 <div style="flex-grow: 1; color: ${isHovered ? '#2D3748' : '#4A5568'};">
-                  ${sectorNames[sector]}
+                  ${getSectorName(sectorRegistry, sector)}${isGroupScore(d.data) ? '' : formatImputedNote(d.data, sector)}
                 </div>
                 <div style="color: ${isHovered ? '#2D3748' : '#718096'};">
-                  ${score.toFixed(3)}
+                  ${score.toFixed(3)}${
+                    mode === 'percent' && sectors.includes(sector)
+                      ? ` (${d3.format('.0%')(getShare(d.data, sector))})`
+                      : ''
+                  }
                 </div>
               </div>
             `;
@@ -222,13 +485,25 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
 
         tooltip.style('visibility', 'visible').html(`
             <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
-              ${d.data.country}
+              ${getBarLabel(d.data)}
             </div>
             <div style="margin-bottom: 8px;">
               ${sectorsHtml}
             </div>
             <div style="font-weight: 600; color: #2D3748; border-top: 1px solid #E2E8F0; padding-top: 6px;">
-              Total Score: ${d.data.totalScore.toFixed(3)}
+              ${getTotalScoreLabel(aggregation)}: ${d.data.totalScore.toFixed(3)}
+            </div>
+            ${
+              isAdditive
+                ? ''
+                : `<div style="color: #718096; font-size: 12px; margin-top: 4px;">Sector values are weighted; the bar splits the total in proportion to them.</div>`
+            }
+            <div style="color: #4A5568; margin-top: 4px;">
+              ${
+                isGroupScore(d.data)
+                  ? `Group of ${d.data.members.length} countries in this edition; would rank #${d.data.rank}`
+                  : `Rank: #${d.data.rank} ${describeRankChange(d.data, previousYear)}`
+              }
             </div>
           `);
 
@@ -241,15 +516,14 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       })
       .on('mousemove', (event) => {
         const containerRect = containerRef.current!.getBoundingClientRect();
-        const svgRect = svgRef.current!.getBoundingClientRect();
         const tooltipNode = tooltipRef.current!;
 
-        // Get the position relative to the SVG
-        const xPos = event.clientX - svgRect.left;
-        const yPos = event.clientY - svgRect.top;
+        // Get the position relative to the container, which does not scroll with a long list
+        const xPos = event.clientX - containerRect.left;
+        const yPos = event.clientY - containerRect.top;
 
         // Calculate the position for the tooltip
-        let left = xPos + margin.left + 16;
+        let left = xPos + 16;
         let top = yPos;
 
         // Adjust if tooltip would go off the right edge
@@ -267,69 +541,148 @@ const BarChart: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
 
         tooltip.style('left', `${left}px`).style('top', `${top}px`);
       })
-      .on('mouseout', (event) => {
+      .on('mouseout', (event, d) => {
         tooltip.style('visibility', 'hidden');
 
-        const currentSector = sectors[d3.select(event.currentTarget.parentNode).datum().index];
         d3.select(event.currentTarget)
           .transition()
           .duration(200)
-          .style('opacity', () => {
-            if (selectedCountry && event.target.__data__.data.country !== selectedCountry)
-              return 0.3;
-            if (selectedSector && currentSector !== selectedSector) return 0.3;
-            return 1;
-          })
-          .style('stroke', 'none');
+          .style('opacity', getOpacity(d))
+          .style('stroke', getStroke(d));
       });
-
-    // Update legend with transitions
-    const legend = svg.select('.legend');
-    if (legend.empty()) {
-      const newLegend = svg
-        .append('g')
-        .attr('class', 'legend')
-        .attr('transform', `translate(${width - margin.right + 20},${margin.top})`);
-
-      sectors.forEach((sector, i) => {
-        const legendItem = newLegend.append('g').attr('transform', `translate(0,${i * 20})`);
-
-        legendItem
-          .append('rect')
-          .attr('width', 15)
-          .attr('height', 15)
-          .attr('fill', sectorColors[sector])
-          .style('opacity', selectedSector && selectedSector !== sector ? 0.3 : 1);
-
-        legendItem
-          .append('text')
-          .attr('x', 20)
-          .attr('y', 12)
-          .text(sectorNames[sector])
-          .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
-          .style('font-size', '12px')
-          .style('font-weight', '500')
-          .style('opacity', selectedSector && selectedSector !== sector ? 0.3 : 1);
-      });
-    } else {
-      legend
-        .selectAll('rect')
-        .transition()
-        .duration(750)
-        .style('opacity', (d) => (selectedSector && selectedSector !== d ? 0.3 : 1));
-
-      legend
-        .selectAll('text')
-        .transition()
-        .duration(750)
-        .style('opacity', (d) => (selectedSector && selectedSector !== d ? 0.3 : 1));
+  }, [
+    rows,
+    mode,
+    hiddenSectors,
+    sectorRegistry,
+    previousYear,
+    aggregation,
+    selectedSector,
+    selectedCountry,
+    onCountrySelect,
+  ]);
+
+  const handleSortChange = (key: string | null) => {
+    setSortKey(key);
+    setPage(0);
+  };
+
+  // The last shown sector stays, so the chart never goes empty
+  const toggleSector = (key: string) => {
+    if (hiddenSectors.includes(key)) {
+      setHiddenSectors(hiddenSectors.filter((hidden) => hidden !== key));
+    } else if (
+      sectorRegistry.some((sector) => sector.key !== key && !hiddenSectors.includes(sector.key))
+    ) {
+      setHiddenSectors([...hiddenSectors, key]);
     }
-  }, [data, selectedSector, selectedCountry, onCountrySelect]);
+  };
+
+  const handlePageSizeChange = (size: number | null) => {
+    setPageSize(size);
+    setPage(0);
+  };
 
   return (
-    <div ref={containerRef} className="relative">
-      <svg ref={svgRef} width="100%" height="400" className="bg-white" />
-      <div ref={tooltipRef} className="absolute" />
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <div className="flex rounded-md bg-gray-100 p-1 w-fit">
+            {BAR_MODES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  mode === option.value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+                title={option.description}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Sort by
+            <select
+              value={sortSector ?? ''}
+              onChange={(e) => handleSortChange(e.target.value || null)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              <option value="">{getTotalScoreLabel(aggregation)}</option>
+              {sectorRegistry.map((sector) => (
+                <option key={sector.key} value={sector.key}>
+                  {sector.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Show
+            <select
+              value={pageSize ?? ''}
+              onChange={(e) => handlePageSizeChange(e.target.value ? Number(e.target.value) : null)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              {PAGE_SIZES.map((option) => (
+                <option key={option.label} value={option.value ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {pageCount > 1 && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              {firstPosition}–{lastPosition} of {data.length}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {sectorRegistry.map((sector) => {
+          const isHidden = hiddenSectors.includes(sector.key);
+          return (
+            <button
+              key={sector.key}
+              onClick={() => toggleSector(sector.key)}
+              className={`flex items-center gap-1 hover:text-gray-900 ${isHidden ? 'line-through text-gray-400' : ''}`}
+              style={{ opacity: selectedSector && selectedSector !== sector.key ? 0.3 : 1 }}
+              title={isHidden ? 'Show this sector' : 'Hide this sector'}
+            >
+              <span
+                className="w-3 h-3 rounded-sm"
+                style={{ backgroundColor: isHidden ? '#E2E8F0' : sector.color }}
+              />
+              {sector.name}
+            </button>
+          );
+        })}
+      </div>
+      <div ref={containerRef} className="relative">
+        <div className={pageSize === null ? 'max-h-[600px] overflow-y-auto' : undefined}>
+          <svg ref={svgRef} width="100%" className="bg-white" />
+        </div>
+        <div ref={tooltipRef} className="absolute" />
+      </div>
     </div>
   );
 };
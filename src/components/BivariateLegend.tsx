@@ -0,0 +1,49 @@
+import React from 'react';
+import { BIVARIATE_CLASS_LABELS, BIVARIATE_COLORS } from '../utils/colorScale';
+
+interface Props {
+  xLabel: string;
+  yLabel: string;
+  // Class of the hovered or selected country, outlined in the grid
+  highlight?: [number, number] | null;
+}
+
+const BivariateLegend: React.FC<Props> = ({ xLabel, yLabel, highlight = null }) => {
+  const size = BIVARIATE_COLORS.length;
+
+  return (
+    <div className="flex items-end gap-2 text-xs text-gray-600">
+      <div
+        className="font-medium whitespace-nowrap"
+        style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}
+      >
+        {yLabel} →
+      </div>
+      <div>
+        <div className="grid grid-cols-3 gap-px w-fit">
+          {/* The top row is the high end of the vertical sector */}
+          {Array.from({ length: size }, (_, i) => size - 1 - i).map((row) =>
+            BIVARIATE_COLORS[row].map((color, column) => {
+              const isHighlighted = highlight?.[0] === column && highlight?.[1] === row;
+              return (
+                <div
+                  key={`${row}-${column}`}
+                  className={`w-6 h-6 ${isHighlighted ? 'ring-2 ring-gray-900 z-10' : ''}`}
+                  style={{ backgroundColor: color }}
+                  title={`${BIVARIATE_CLASS_LABELS[column]} ${xLabel}, ${BIVARIATE_CLASS_LABELS[row].toLowerCase()} ${yLabel}`}
+                />
+              );
+            }),
+          )}
+        </div>
+        <div className="font-medium mt-1 whitespace-nowrap">{xLabel} →</div>
+      </div>
+      <p className="ml-3 max-w-xs text-gray-500">
+        Each axis splits the countries into thirds by the sector's normalized value. The darkest
+        square marks countries strong in both sectors.
+      </p>
+    </div>
+  );
+};
+
+export default BivariateLegend;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { ColorScale } from '../utils/colorScale';
+
+interface Props {
+  scale: ColorScale;
+  title: string;
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(3);
+}
+
+const ColorLegend: React.FC<Props> = ({ scale, title }) => {
+  const [min, max] = scale.domain;
+
+  if (scale.isContinuous) {
+    return (
+      <div className="text-xs text-gray-600">
+        <div className="font-medium mb-1">{title}</div>
+        <div
+          className="h-3 w-64 max-w-full rounded"
+          style={{ background: `linear-gradient(to right, ${scale.colors.join(', ')})` }}
+        />
+        <div className="flex justify-between w-64 max-w-full mt-1">
+          <span>{formatValue(min)}</span>
+          <span>{formatValue((min + max) / 2)}</span>
+          <span>{formatValue(max)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  // Class i covers [breaks[i - 1], breaks[i]); the outer classes are open-ended
+  const { breaks, colors } = scale;
+  const getClassLabel = (i: number) => {
+    if (colors.length === 1) return `${formatValue(min)} – ${formatValue(max)}`;
+    if (i === 0) return `< ${formatValue(breaks[0])}`;
+    if (i === colors.length - 1) return `≥ ${formatValue(breaks[i - 1])}`;
+    return `${formatValue(breaks[i - 1])} – ${formatValue(breaks[i])}`;
+  };
+
+  return (
+    <div className="text-xs text-gray-600">
+      <div className="font-medium mb-1">{title}</div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {colors.map((color, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <span className="w-4 h-3 rounded-sm" style={{ backgroundColor: color }} />
+            <span>{getClassLabel(i)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ColorLegend;
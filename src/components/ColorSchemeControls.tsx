@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import type { ClassificationMethod, ColorScheme } from '../types';
+import { CLASSIFICATION_METHODS, PALETTES, getPalette, parseBreaks } from '../utils/colorScale';
+
+interface Props {
+  scheme: ColorScheme;
+  onChange: (scheme: ColorScheme) => void;
+}
+
+const CLASS_COUNTS = [3, 4, 5, 6, 7, 8, 9];
+
+const ColorSchemeControls: React.FC<Props> = ({ scheme, onChange }) => {
+  // Breaks are edited as text and applied when the field is left
+  const [breaksText, setBreaksText] = useState(scheme.customBreaks.join(', '));
+  useEffect(() => {
+    setBreaksText(scheme.customBreaks.join(', '));
+  }, [scheme.customBreaks]);
+
+  const palette = getPalette(scheme.palette);
+  const usesClassCount = ['quantile', 'equal', 'jenks'].includes(scheme.classification);
+
+  const applyBreaks = () => {
+    onChange({ ...scheme, customBreaks: parseBreaks(breaksText) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 text-sm">
+      <label>
+        <span className="block text-xs font-medium text-gray-500 mb-1">Classes</span>
+        <select
+          value={scheme.classification}
+          onChange={(e) =>
+            onChange({ ...scheme, classification: e.target.value as ClassificationMethod })
+          }
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+          title={
+            CLASSIFICATION_METHODS.find((info) => info.value === scheme.classification)?.description
+          }
+        >
+          {CLASSIFICATION_METHODS.map((info) => (
+            <option key={info.value} value={info.value}>
+              {info.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {usesClassCount && (
+        <label>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Count</span>
+          <select
+            value={scheme.classes}
+            onChange={(e) => onChange({ ...scheme, classes: Number(e.target.value) })}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            {CLASS_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {scheme.classification === 'custom' && (
+        <label>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Breaks</span>
+          <input
+            value={breaksText}
+            onChange={(e) => setBreaksText(e.target.value)}
+            onBlur={applyBreaks}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyBreaks();
+            }}
+            placeholder="e.g. 0.2, 0.4, 0.6"
+            className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+        </label>
+      )}
+      <label>
+        <span className="block text-xs font-medium text-gray-500 mb-1">Palette</span>
+        <div className="flex items-center gap-2">
+          <select
+            value={palette.id}
+            onChange={(e) => onChange({ ...scheme, palette: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            {(['sequential', 'diverging'] as const).map((type) => (
+              <optgroup key={type} label={type === 'sequential' ? 'Sequential' : 'Diverging'}>
+                {PALETTES.filter((option) => option.type === type).map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <span
+            className="w-16 h-3 rounded"
+            style={{
+              background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+                .map((t) => palette.interpolator(t))
+                .join(', ')})`,
+            }}
+          />
+        </div>
+      </label>
+    </div>
+  );
+};
+
+export default ColorSchemeControls;
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { X } from 'lucide-react';
+import type {
+  AggregationMethod,
+  CountryData,
+  CountryGroup,
+  InteractiveProps,
+  Sector,
+  SectorWeights,
+} from '../types';
+import { DEFAULT_AGGREGATION, getTotalScoreLabel } from '../utils/aggregation';
+import { buildCountryProfile } from '../utils/countryProfile';
+import { describeRankChange } from '../utils/dataProcessing';
+import { filterByGroup } from '../utils/groups';
+import { describeImputedValue } from '../utils/imputation';
+import { getDefaultSectorWeights } from '../utils/sectors';
+
+interface Props extends InteractiveProps {
+  // The whole edition, which the ranks refer to
+  data: CountryData[];
+  sectors: Sector[];
+  previousYear?: string | null;
+  aggregation?: AggregationMethod;
+  // Groups the country can be compared with
+  groups: CountryGroup[];
+  // Ranks the edition under other weights, to compare with the default ones
+  rankWithWeights: (weights: SectorWeights) => CountryData[];
+}
+
+// Opens beside the page while a country is selected; closing it clears the selection
+const CountryProfileDrawer: React.FC<Props> = ({
+  data,
+  sectors,
+  previousYear = null,
+  aggregation = DEFAULT_AGGREGATION,
+  groups,
+  rankWithWeights,
+  selectedCountry,
+  onCountrySelect,
+}) => {
+  const [peerGroupId, setPeerGroupId] = useState<string | null>(null);
+
+  const country = data.find((d) => d.country === selectedCountry) ?? null;
+
+  const memberOf = useMemo(
+    () =>
+      country?.countryCode
+        ? groups.filter((group) => group.members.includes(country.countryCode!))
+        : [],
+    [groups, country],
+  );
+  const peerGroup = memberOf.find((group) => group.id === peerGroupId) ?? memberOf[0] ?? null;
+
+  const profile = useMemo(
+    () =>
+      country ? buildCountryProfile(country, data, sectors, filterByGroup(data, peerGroup)) : null,
+    [country, data, sectors, peerGroup],
+  );
+
+  const defaultRank = useMemo(
+    () =>
+      selectedCountry
+        ? (rankWithWeights(getDefaultSectorWeights(sectors)).find(
+            (d) => d.country === selectedCountry,
+          )?.rank ?? null)
+        : null,
+    [rankWithWeights, sectors, selectedCountry],
+  );
+
+  // One scale for every sector's bar, so the bars compare across sectors too
+  const scoreDomain = useMemo((): [number, number] => {
+    const scores = data.flatMap((d) => sectors.map((sector) => d.sectorScores[sector.key] ?? 0));
+    const min = Math.min(0, d3.min(scores) ?? 0);
+    const max = d3.max(scores) ?? 1;
+    return [min, max > min ? max : min + 1];
+  }, [data, sectors]);
+
+  if (!country || !profile) return null;
+
+  const toPercent = (value: number) =>
+    ((value - scoreDomain[0]) / (scoreDomain[1] - scoreDomain[0])) * 100;
+  const rankShift = defaultRank === null ? 0 : defaultRank - country.rank;
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 w-96 max-w-full bg-white shadow-xl overflow-y-auto">
+      <div className="flex items-start justify-between gap-2 p-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{country.country}</h2>
+          <p className="text-sm text-gray-500">
+            {getTotalScoreLabel(aggregation)}: {country.totalScore.toFixed(3)}
+          </p>
+        </div>
+        <button
+          onClick={() => onCountrySelect(null)}
+          className="p-1 rounded hover:bg-gray-100"
+          title="Close"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6 text-sm">
+        <section className="space-y-1">
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-bold text-gray-900">#{country.rank}</span>
+            <span className="text-gray-500">of {profile.total}</span>
+          </div>
+          {previousYear && (
+            <p className="text-gray-600">{describeRankChange(country, previousYear)}</p>
+          )}
+          {defaultRank !== null && (
+            <p className="text-gray-600">
+              #{defaultRank} with equal default weights
+              {rankShift !== 0 && (
+                <span className={rankShift > 0 ? 'text-green-700' : 'text-red-700'}>
+                  {' '}
+                  · the current weights move it {rankShift > 0 ? 'up' : 'down'}{' '}
+                  {Math.abs(rankShift)} {Math.abs(rankShift) === 1 ? 'place' : 'places'}
+                </span>
+              )}
+            </p>
+          )}
+        </section>
+
+        {profile.strongest && (
+          <section className="grid grid-cols-2 gap-3">
+            <div className="p-3 rounded-md bg-green-50">
+              <div className="text-xs font-medium text-green-800">Strongest sector</div>
+              <div className="font-semibold text-gray-900">{profile.strongest.sector.name}</div>
+              <div className="text-xs text-gray-600">
+                #{profile.strongest.rank} of {profile.total}
+              </div>
+            </div>
+            {profile.weakest && (
+              <div className="p-3 rounded-md bg-red-50">
+                <div className="text-xs font-medium text-red-800">Weakest sector</div>
+                <div className="font-semibold text-gray-900">{profile.weakest.sector.name}</div>
+                <div className="text-xs text-gray-600">
+                  #{profile.weakest.rank} of {profile.total}
+                </div>
+              </div>
+            )}
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold text-gray-900">Sector breakdown</h3>
+            {memberOf.length > 0 && (
+              <select
+                value={peerGroup?.id ?? ''}
+                onChange={(e) => setPeerGroupId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs bg-white"
+                title="Peer group for the dashed median marker"
+              >
+                {memberOf.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name} peers
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {profile.sectors.map((standing) => (
+            <div key={standing.sector.key} className="space-y-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-gray-700">
+                  {standing.sector.name}
+                  {describeImputedValue(country, standing.sector.key) && (
+                    <span className="ml-1 text-xs italic text-yellow-700">
+                      ({describeImputedValue(country, standing.sector.key)})
+                    </span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {standing.score.toFixed(3)} · #{standing.rank} of {profile.total}
+                </span>
+              </div>
+              <div className="relative h-3 rounded bg-gray-100">
+                <div
+                  className="absolute inset-y-0 rounded"
+                  style={{
+                    left: `${toPercent(Math.min(0, standing.score))}%`,
+                    width: `${Math.abs(toPercent(standing.score) - toPercent(0))}%`,
+                    backgroundColor: standing.sector.color,
+                  }}
+                />
+                <div
+                  className="absolute -inset-y-0.5 w-0.5 bg-gray-800"
+                  style={{ left: `${toPercent(standing.globalMedian)}%` }}
+                  title={`Global median: ${standing.globalMedian.toFixed(3)}`}
+                />
+                {standing.peerMedian !== null && (
+                  <div
+                    className="absolute -inset-y-0.5 border-l-2 border-dashed border-gray-500"
+                    style={{ left: `${toPercent(standing.peerMedian)}%` }}
+                    title={`${peerGroup?.name} median: ${standing.peerMedian.toFixed(3)}`}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              <span className="w-0.5 h-3 bg-gray-800" />
+              Global median
+            </span>
+            {peerGroup && (
+              <span className="flex items-center gap-1">
+                <span className="h-3 border-l-2 border-dashed border-gray-500" />
+                {peerGroup.name} median
+              </span>
+            )}
+          </div>
+        </section>
+
+        {profile.neighbours.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Most similar profiles</h3>
+            <p className="text-xs text-gray-500">
+              Closest countries by normalized sector values, whatever their total.
+            </p>
+            <ul className="divide-y divide-gray-100">
+              {profile.neighbours.map(({ country: neighbour, distance }) => (
+                <li key={neighbour.country}>
+                  <button
+                    onClick={() => onCountrySelect(neighbour.country)}
+                    className="w-full flex items-center justify-between gap-2 py-1.5 text-left hover:bg-gray-50"
+                  >
+                    <span className="text-gray-700">{neighbour.country}</span>
+                    <span className="text-xs text-gray-500">
+                      #{neighbour.rank} · distance {distance.toFixed(2)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default CountryProfileDrawer;
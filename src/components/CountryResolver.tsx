@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import Select from 'react-select';
+import { MapPin, MapPinOff, RotateCcw, X } from 'lucide-react';
+import { COUNTRIES } from '../utils/countries';
+
+export interface UnresolvedCountry {
+  sourceName: string;
+  // Alpha-3 code of the current match, null when the name was not recognised
+  countryCode: string | null;
+  status: 'unrecognised' | 'overridden';
+}
+
+const STATUS_LABELS: Record<UnresolvedCountry['status'], string> = {
+  unrecognised: 'Not recognised',
+  overridden: 'Matched manually',
+};
+
+interface Props {
+  countries: UnresolvedCountry[];
+  // Matched countries without a shape on the map, listed for information only
+  undrawnCountries: string[];
+  overrides: Record<string, string>;
+  onOverride: (sourceName: string, countryCode: string | null) => void;
+  onDismiss: () => void;
+}
+
+interface CountryOption {
+  value: string;
+  label: string;
+}
+
+const CountryResolver: React.FC<Props> = ({
+  countries,
+  undrawnCountries,
+  overrides,
+  onOverride,
+  onDismiss,
+}) => {
+  const options = useMemo<CountryOption[]>(
+    () =>
+      COUNTRIES.map((country) => ({
+        value: country.alpha3,
+        label: `${country.name} (${country.alpha3})`,
+      })).sort((a, b) => a.label.localeCompare(b.label)),
+    [],
+  );
+
+  return (
+    <div className="border border-amber-300 bg-amber-50 rounded-lg">
+      <div className="flex items-start justify-between px-4 py-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Unmatched countries</h2>
+          <p className="text-sm text-gray-600">
+            Some country names were not recognised, so they cannot be placed on the map. Pick the
+            matching country to fix them; your choices are remembered in this browser.
+          </p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-2 rounded-lg hover:bg-amber-100 transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="border-t border-gray-200 bg-white rounded-b-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name in file
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Problem
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-96">
+                Match
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {countries.map(({ sourceName, countryCode, status }) => (
+              <tr key={sourceName}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {sourceName}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  <span className="inline-flex items-center gap-1">
+                    {status === 'overridden' ? (
+                      <MapPin className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <MapPinOff className="w-4 h-4 text-amber-600" />
+                    )}
+                    {STATUS_LABELS[status]}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-grow">
+                      <Select<CountryOption>
+                        options={options}
+                        value={options.find((option) => option.value === countryCode) ?? null}
+                        onChange={(option) => onOverride(sourceName, option?.value ?? null)}
+                        placeholder="Choose a country..."
+                        menuPlacement="auto"
+                      />
+                    </div>
+                    {overrides[sourceName] && (
+                      <button
+                        onClick={() => onOverride(sourceName, null)}
+                        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                        title="Reset to the automatic match"
+                      >
+                        <RotateCcw className="w-4 h-4 text-gray-600" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {undrawnCountries.length > 0 && (
+          <p className="px-4 py-2 border-t border-gray-200 text-sm text-gray-600">
+            Matched, but the map has no shape for them: {undrawnCountries.join(', ')}. They still
+            count in the rankings and charts.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CountryResolver;
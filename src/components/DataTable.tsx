@@ -1,22 +1,68 @@
 import React from 'react';
-import type { CountryData } from '../types';
-import { sectorNames } from '../utils/constants';
-import { calculateColorIntensity } from '../utils/dataProcessing';
+import type {
+  AggregationMethod,
+  ColorScheme,
+  CountryData,
+  CountrySensitivity,
+  GroupAggregation,
+  GroupScore,
+  Sector,
+  SensitivityResult,
+} from '../types';
+import { DEFAULT_AGGREGATION, getAggregationInfo } from '../utils/aggregation';
+import { describeRankChange } from '../utils/dataProcessing';
+import {
+  type ColorScale,
+  DEFAULT_COLOR_SCHEME,
+  createColorScale,
+  getTextColor,
+} from '../utils/colorScale';
+import { DEFAULT_GROUP_AGGREGATION, getGroupAggregationInfo } from '../utils/groups';
+import { describeImputedValue } from '../utils/imputation';
+import { formatRank } from '../utils/sensitivity';
 
 interface Props {
   data: CountryData[];
+  sectors: Sector[];
+  previousYear?: string | null;
+  aggregation?: AggregationMethod;
+  // Same classification and palette as the map
+  colorScheme?: ColorScheme;
   selectedSector: string | null;
   selectedCountry: string | null;
+  // Monte Carlo rank statistics, shown as extra columns when they match the current weights
+  sensitivity?: SensitivityResult | null;
+  // Aggregate rows listed above the countries
+  groups?: GroupScore[];
+  groupAggregation?: GroupAggregation;
 }
 
-const DataTable: React.FC<Props> = ({ data, selectedSector, selectedCountry }) => {
+// Ranks sort inverted so that the default descending order lists the best rank first
+function getSortValue(country: CountryData, field: string): number {
+  if (field === 'totalScore') return country.totalScore;
+  if (field === 'rank') return -country.rank;
+  return country.sectorScores[field];
+}
+
+const DataTable: React.FC<Props> = ({
+  data,
+  sectors,
+  previousYear = null,
+  aggregation = DEFAULT_AGGREGATION,
+  colorScheme = DEFAULT_COLOR_SCHEME,
+  selectedSector,
+  selectedCountry,
+  sensitivity = null,
+  groups = [],
+  groupAggregation = DEFAULT_GROUP_AGGREGATION,
+}) => {
   const [sortField, setSortField] = React.useState<string>('totalScore');
   const [sortDirection, setSortDirection] = React.useState<'asc' | 'desc'>('desc');
 
   const sortedData = React.useMemo(() => {
     const sorted = [...data].sort((a, b) => {
-      const aValue = sortField === 'totalScore' ? a.totalScore : a.sectorScores[sortField];
-      const bValue = sortField === 'totalScore' ? b.totalScore : b.sectorScores[sortField];
+      const aValue = getSortValue(a, sortField);
+      const bValue = getSortValue(b, sortField);
       return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
     });
     return sorted;
@@ -31,50 +77,175 @@ const DataTable: React.FC<Props> = ({ data, selectedSector, selectedCountry }) =
     }
   };
 
-  const maxScores = React.useMemo(() => {
-    const scores = {
-      totalScore: Math.max(...data.map((d) => d.totalScore)),
-      ...Object.keys(data[0].sectorScores).reduce(
-        (acc, sector) => ({
-          ...acc,
-          [sector]: Math.max(...data.map((d) => d.sectorScores[sector])),
-        }),
-        {},
+  // One scale per column, as the map builds one for the total or the selected sector
+  const colorScales = React.useMemo(() => {
+    const scales: Record<string, ColorScale> = {
+      totalScore: createColorScale(
+        data.map((d) => d.totalScore),
+        colorScheme,
       ),
     };
-    return scores;
-  }, [data]);
+    sectors.forEach((sector) => {
+      scales[sector.key] = createColorScale(
+        data.map((d) => d.sectorScores[sector.key] ?? 0),
+        colorScheme,
+      );
+    });
+    return scales;
+  }, [data, sectors, colorScheme]);
+
+  const getCellStyle = (field: string, value: number): React.CSSProperties => {
+    const backgroundColor = colorScales[field].color(value);
+    return { backgroundColor, color: getTextColor(backgroundColor) };
+  };
+
+  const sensitivityByCountry = React.useMemo(
+    () =>
+      new Map<string, CountrySensitivity>(
+        (sensitivity?.countries ?? []).map((country) => [country.country, country]),
+      ),
+    [sensitivity],
+  );
+
+  const hasImputedValues = data.some((d) => Object.keys(d.imputedSectors).length > 0);
+
+  const renderSensitivityCells = (stats: CountrySensitivity | undefined) => {
+    const className = 'px-6 py-4 whitespace-nowrap text-sm text-gray-500';
+    if (!stats) {
+      return (
+        <>
+          <td className={className}>—</td>
+          <td className={className}>—</td>
+          <td className={className}>—</td>
+        </>
+      );
+    }
+    return (
+      <>
+        <td className={className}>{formatRank(stats.medianRank)}</td>
+        <td className={className}>
+          {formatRank(stats.rankLow)}–{formatRank(stats.rankHigh)}
+        </td>
+        <td className={className}>{(stats.topNProbability * 100).toFixed(1)}%</td>
+      </>
+    );
+  };
 
   return (
     <div className="overflow-x-auto">
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
+            <th
+              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+              onClick={() => handleSort('rank')}
+            >
+              Rank
+            </th>
             <th
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
               onClick={() => handleSort('country')}
             >
               Country
             </th>
-            {Object.keys(data[0].sectorScores).map((sector) => (
+            {sectors.map((sector) => (
               <th
-                key={sector}
+                key={sector.key}
                 className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 ${
-                  selectedSector && selectedSector !== sector ? 'opacity-50' : ''
+                  selectedSector && selectedSector !== sector.key ? 'opacity-50' : ''
                 }`}
-                onClick={() => handleSort(sector)}
+                onClick={() => handleSort(sector.key)}
               >
-                {sectorNames[sector]}
+                {sector.name}
               </th>
             ))}
             <th
               className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
               onClick={() => handleSort('totalScore')}
+              title={getAggregationInfo(aggregation).formula}
             >
               Total Score
+              {aggregation !== DEFAULT_AGGREGATION && (
+                <span className="block normal-case font-normal">
+                  {getAggregationInfo(aggregation).label}
+                </span>
+              )}
             </th>
+            {sensitivity && (
+              <>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Median rank
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  90% rank interval
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  P(top {sensitivity.settings.topN})
+                </th>
+              </>
+            )}
           </tr>
         </thead>
+        {groups.length > 0 && (
+          <tbody className="bg-gray-50 divide-y divide-gray-200 border-b-2 border-gray-300">
+            {groups.map((groupScore) => (
+              <tr key={groupScore.group.id}>
+                <td
+                  className="px-6 py-4 whitespace-nowrap text-sm text-gray-500"
+                  title="Place the group's score would take among the countries"
+                >
+                  ≈{groupScore.rank}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="w-3 h-3 rounded-sm"
+                      style={{ backgroundColor: groupScore.group.color }}
+                    />
+                    {groupScore.group.name}
+                  </span>
+                  <span
+                    className="block text-xs font-normal text-gray-500"
+                    title={
+                      groupScore.unweightedMembers.length > 0
+                        ? `Left out for lack of a figure: ${groupScore.unweightedMembers
+                            .map((country) => country.country)
+                            .join(', ')}`
+                        : undefined
+                    }
+                  >
+                    {groupScore.bestMember
+                      ? `Best member: ${groupScore.bestMember}`
+                      : `${getGroupAggregationInfo(groupAggregation).label} of ${
+                          groupScore.members.length - groupScore.unweightedMembers.length
+                        } members`}
+                  </span>
+                </td>
+                {sectors.map((sector) => {
+                  const score = groupScore.sectorScores[sector.key] ?? 0;
+                  return (
+                    <td
+                      key={sector.key}
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 ${
+                        selectedSector && selectedSector !== sector.key ? 'opacity-50' : ''
+                      }`}
+                      style={getCellStyle(sector.key, score)}
+                    >
+                      {score.toFixed(3)}
+                    </td>
+                  );
+                })}
+                <td
+                  className="px-6 py-4 whitespace-nowrap text-sm text-gray-500"
+                  style={getCellStyle('totalScore', groupScore.totalScore)}
+                >
+                  {groupScore.totalScore.toFixed(3)}
+                </td>
+                {sensitivity && renderSensitivityCells(undefined)}
+              </tr>
+            ))}
+          </tbody>
+        )}
         <tbody className="bg-white divide-y divide-gray-200">
           {sortedData.map((country) => (
             <tr
@@ -83,37 +254,71 @@ const DataTable: React.FC<Props> = ({ data, selectedSector, selectedCountry }) =
                 selectedCountry === country.country ? 'bg-blue-50' : ''
               }`}
             >
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <span className="font-medium">{country.rank}</span>
+                {previousYear && (
+                  <span
+                    className={`ml-2 text-xs ${
+                      country.rankChange === null
+                        ? 'text-blue-600'
+                        : country.rankChange > 0
+                          ? 'text-green-600'
+                          : country.rankChange < 0
+                            ? 'text-red-600'
+                            : 'text-gray-400'
+                    }`}
+                    title={describeRankChange(country, previousYear)}
+                  >
+                    {country.rankChange === null
+                      ? 'new'
+                      : country.rankChange > 0
+                        ? `▲${country.rankChange}`
+                        : country.rankChange < 0
+                          ? `▼${Math.abs(country.rankChange)}`
+                          : '–'}
+                  </span>
+                )}
+              </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                 {country.country}
               </td>
-              {Object.entries(country.sectorScores).map(([sector, score]) => (
-                <td
-                  key={sector}
-                  className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 ${
-                    selectedSector && selectedSector !== sector ? 'opacity-50' : ''
-                  }`}
-                  style={{
-                    backgroundColor: calculateColorIntensity(score, maxScores[sector]),
-                  }}
-                >
-                  {score.toFixed(3)}
-                </td>
-              ))}
+              {sectors.map((sector) => {
+                const score = country.sectorScores[sector.key] ?? 0;
+                const imputedNote = describeImputedValue(country, sector.key);
+                const isExcluded = country.imputedSectors[sector.key] === 'exclude';
+
+                return (
+                  <td
+                    key={sector.key}
+                    className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 ${
+                      selectedSector && selectedSector !== sector.key ? 'opacity-50' : ''
+                    } ${imputedNote ? 'italic' : ''}`}
+                    style={isExcluded ? undefined : getCellStyle(sector.key, score)}
+                    title={imputedNote ?? undefined}
+                  >
+                    {isExcluded ? '—' : score.toFixed(3)}
+                    {imputedNote && <span className="ml-1 text-amber-600 not-italic">*</span>}
+                  </td>
+                );
+              })}
               <td
                 className="px-6 py-4 whitespace-nowrap text-sm text-gray-500"
-                style={{
-                  backgroundColor: calculateColorIntensity(
-                    country.totalScore,
-                    maxScores.totalScore,
-                  ),
-                }}
+                style={getCellStyle('totalScore', country.totalScore)}
               >
                 {country.totalScore.toFixed(3)}
               </td>
+              {sensitivity && renderSensitivityCells(sensitivityByCountry.get(country.country))}
             </tr>
           ))}
         </tbody>
       </table>
+      {hasImputedValues && (
+        <p className="mt-3 text-xs text-gray-500">
+          <span className="text-amber-600">*</span> Missing in the source file; hover a cell to see
+          how it was filled. Cells marked — are excluded and their weight goes to the country's
+          other sectors.
+        </p>
+      )}
     </div>
   );
 };
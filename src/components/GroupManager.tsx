@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import Select from 'react-select';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { CountryData, CountryGroup, GroupAggregation } from '../types';
+import { COUNTRIES } from '../utils/countries';
+import {
+  GROUP_AGGREGATIONS,
+  createGroupId,
+  filterByGroup,
+  getGroupAggregationInfo,
+  getNextGroupColor,
+} from '../utils/groups';
+
+interface Props {
+  groups: CountryGroup[];
+  // Current edition, to count the members that have data
+  data: CountryData[];
+  // Groups shown as extra rows, bars and map outlines
+  shownGroupIds: string[];
+  onToggleShown: (id: string) => void;
+  filterGroupId: string | null;
+  onFilterChange: (id: string | null) => void;
+  aggregation: GroupAggregation;
+  onAggregationChange: (method: GroupAggregation) => void;
+  onSave: (group: CountryGroup) => void;
+  onDelete: (id: string) => void;
+}
+
+interface CountryOption {
+  value: string;
+  label: string;
+}
+
+interface Draft {
+  // Id of the group being edited, or null for a new one
+  id: string | null;
+  name: string;
+  members: string[];
+}
+
+const GroupManager: React.FC<Props> = ({
+  groups,
+  data,
+  shownGroupIds,
+  onToggleShown,
+  filterGroupId,
+  onFilterChange,
+  aggregation,
+  onAggregationChange,
+  onSave,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const options = useMemo<CountryOption[]>(
+    () =>
+      COUNTRIES.map((country) => ({
+        value: country.alpha3,
+        label: country.name,
+      })).sort((a, b) => a.label.localeCompare(b.label)),
+    [],
+  );
+
+  const commitDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (name && draft.members.length > 0) {
+      const existing = groups.find((group) => group.id === draft.id);
+      onSave({
+        id: existing?.id ?? createGroupId(),
+        name,
+        members: draft.members,
+        color: existing?.color ?? getNextGroupColor(groups),
+        isBuiltIn: false,
+      });
+    }
+    setDraft(null);
+  };
+
+  const renderDraft = (current: Draft) => (
+    <div className="space-y-2 p-2 rounded-md border border-gray-200 bg-gray-50">
+      <input
+        autoFocus
+        value={current.name}
+        onChange={(e) => setDraft({ ...current, name: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        placeholder="Group name"
+      />
+      <Select<CountryOption, true>
+        isMulti
+        options={options}
+        value={options.filter((option) => current.members.includes(option.value))}
+        onChange={(selected) =>
+          setDraft({ ...current, members: selected.map((option) => option.value) })
+        }
+        placeholder="Add countries..."
+        menuPlacement="auto"
+        className="text-sm"
+      />
+      <div className="flex justify-end gap-1">
+        <button
+          onClick={commitDraft}
+          disabled={!current.name.trim() || current.members.length === 0}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+          title="Save group"
+        >
+          <Check className="w-4 h-4 text-green-600" />
+        </button>
+        <button
+          onClick={() => setDraft(null)}
+          className="p-1 rounded hover:bg-gray-100"
+          title="Cancel"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-500 mb-1">Show only</span>
+        <select
+          value={filterGroupId ?? ''}
+          onChange={(e) => onFilterChange(e.target.value || null)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          <option value="">All countries</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>
+              {group.name} members
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-500 mb-1">Group score</span>
+        <select
+          value={aggregation}
+          onChange={(e) => onAggregationChange(e.target.value as GroupAggregation)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          {GROUP_AGGREGATIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="block mt-1 text-xs text-gray-500">
+          {getGroupAggregationInfo(aggregation).description}
+        </span>
+      </label>
+
+      <ul className="space-y-1">
+        {groups.map((group) => {
+          if (draft?.id === group.id) return <li key={group.id}>{renderDraft(draft)}</li>;
+
+          const present = filterByGroup(data, group).length;
+          return (
+            <li key={group.id} className="flex items-center gap-2 px-2 py-1 text-sm">
+              <input
+                type="checkbox"
+                checked={shownGroupIds.includes(group.id)}
+                onChange={() => onToggleShown(group.id)}
+                disabled={present === 0}
+                title="Show as a row, a bar and a map outline"
+              />
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: group.color }} />
+              <span
+                className={`flex-grow truncate ${present === 0 ? 'text-gray-400' : 'text-gray-700'}`}
+                title={`${present} of ${group.members.length} members are in this edition`}
+              >
+                {group.name}
+                <span className="ml-1 text-xs text-gray-400">
+                  {present}/{group.members.length}
+                </span>
+              </span>
+              {!group.isBuiltIn && (
+                <>
+                  <button
+                    onClick={() =>
+                      setDraft({ id: group.id, name: group.name, members: group.members })
+                    }
+                    className="p-1 rounded hover:bg-gray-100"
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(group.id)}
+                    className="p-1 rounded hover:bg-gray-100"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {draft && draft.id === null ? (
+        renderDraft(draft)
+      ) : (
+        <button
+          onClick={() => setDraft({ id: null, name: '', members: [] })}
+          className="w-full flex items-center justify-center gap-1 px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md text-sm text-gray-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New group
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GroupManager;
@@ -1,15 +1,17 @@
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
-import type { CountryData } from '../types';
-import { sectorColors, sectorNames } from '../utils/constants';
+import type { CountryData, Sector } from '../types';
+import { formatImputedNote } from '../utils/imputation';
+import { getSectorColor, getSectorName } from '../utils/sectors';
 
 interface Props {
   data: CountryData[];
+  sectors: Sector[];
   selectedSector: string | null;
   onSectorSelect: (sector: string | null) => void;
 }
 
-const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) => {
+const PieChart: React.FC<Props> = ({ data, sectors, selectedSector, onSectorSelect }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
 
@@ -46,10 +48,10 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
       .style('z-index', '1000');
 
     // Calculate average scores for each sector
-    const sectorAverages = Object.keys(data[0].sectorScores).reduce(
+    const sectorAverages = sectors.reduce(
       (acc, sector) => {
-        const avg = d3.mean(data, (d) => d.sectorScores[sector]) || 0;
-        return { ...acc, [sector]: avg };
+        const avg = d3.mean(data, (d) => d.sectorScores[sector.key]) || 0;
+        return { ...acc, [sector.key]: avg };
       },
       {} as Record<string, number>,
     );
@@ -86,7 +88,7 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
     arcsEnter
       .append('path')
       .attr('d', arc as any)
-      .attr('fill', (d) => sectorColors[d.data[0]])
+      .attr('fill', (d) => getSectorColor(sectors, d.data[0]))
       .attr('stroke', 'white')
       .style('stroke-width', '2px')
       .style('opacity', 0);
@@ -118,12 +120,12 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
 
         tooltip.style('visibility', 'visible').html(`
             <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
-              ${sectorNames[sector]}
+              ${getSectorName(sectors, sector)}
             </div>
             <div style="margin-bottom: 4px;">
               Average Score: ${value.toFixed(3)}
             </div>
-            ${data.length === 1 ? `<div>Country Score: ${data[0].sectorScores[sector].toFixed(3)}</div>` : ''}
+            ${data.length === 1 ? `<div>Country Score: ${data[0].sectorScores[sector].toFixed(3)}${formatImputedNote(data[0], sector)}</div>` : ''}
           `);
 
         d3.select(event.currentTarget).transition().duration(200).attr('transform', 'scale(1.05)');
@@ -217,7 +219,7 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
           'd',
           `M${posLine[0]},${posLine[1]}L${posLineOuter[0]},${posLineOuter[1]}L${pos[0]},${pos[1]}`,
         )
-        .attr('stroke', sectorColors[d.data[0]])
+        .attr('stroke', getSectorColor(sectors, d.data[0]))
         .attr('stroke-width', 1.5)
         .attr('fill', 'none')
         .style('opacity', selectedSector === d.data[0] ? 1 : selectedSector ? 0.3 : 1);
@@ -233,10 +235,10 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
         .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
         .style('font-size', '14px')
         .style('font-weight', '600')
-        .style('fill', sectorColors[d.data[0]])
+        .style('fill', getSectorColor(sectors, d.data[0]))
         .style('cursor', 'pointer')
         .style('opacity', selectedSector === d.data[0] ? 1 : selectedSector ? 0.3 : 1)
-        .text(sectorNames[d.data[0]])
+        .text(getSectorName(sectors, d.data[0]))
         .on('click', (event, labelData) => {
           onSectorSelect(selectedSector === labelData.data[0] ? null : labelData.data[0]);
         })
@@ -246,12 +248,12 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
 
           tooltip.style('visibility', 'visible').html(`
               <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
-                ${sectorNames[sector]}
+                ${getSectorName(sectors, sector)}
               </div>
               <div style="margin-bottom: 4px;">
                 Average Score: ${value.toFixed(3)}
               </div>
-              ${data.length === 1 ? `<div>Country Score: ${data[0].sectorScores[sector].toFixed(3)}</div>` : ''}
+              ${data.length === 1 ? `<div>Country Score: ${data[0].sectorScores[sector].toFixed(3)}${formatImputedNote(data[0], sector)}</div>` : ''}
             `);
 
           // Highlight the arc - store the sector to use for filtering
@@ -346,7 +348,7 @@ const PieChart: React.FC<Props> = ({ data, selectedSector, onSectorSelect }) =>
     //   .attr("height", height)
     //   .attr("fill", "none")
     //   .attr("stroke", "#ccc");
-  }, [data, selectedSector, onSectorSelect]);
+  }, [data, sectors, selectedSector, onSectorSelect]);
 
   return (
     <div className="relative">
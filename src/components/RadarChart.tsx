@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import Select from 'react-select';
+import { Plus, X } from 'lucide-react';
+import type { CountryData, Sector } from '../types';
+import { formatImputedNote } from '../utils/imputation';
+
+interface Props {
+  data: CountryData[];
+  sectors: Sector[];
+  // Countries drawn on the chart, in the order they were added
+  countries: string[];
+  onCountriesChange: (countries: string[]) => void;
+  // Offered as a one-click addition when it is not compared yet
+  selectedCountry: string | null;
+}
+
+type RadarValues = 'weighted' | 'normalized';
+type RadarReference = 'none' | 'mean' | 'median';
+
+interface CountryOption {
+  value: string;
+  label: string;
+}
+
+interface RadarPoint {
+  sector: Sector;
+  value: number;
+  country: CountryData | null;
+}
+
+interface RadarSeries {
+  label: string;
+  color: string;
+  points: RadarPoint[];
+}
+
+const MAX_COMPARED_COUNTRIES = 5;
+
+// Distinct from each other and from the reference polygon's gray
+const COUNTRY_COLORS = ['#2B6CB0', '#C05621', '#2F855A', '#B83280', '#6B46C1'];
+
+const REFERENCE_OPTIONS: { value: RadarReference; label: string }[] = [
+  { value: 'none', label: 'No reference' },
+  { value: 'mean', label: 'Dataset average' },
+  { value: 'median', label: 'Dataset median' },
+];
+
+const RadarChart: React.FC<Props> = ({
+  data,
+  sectors,
+  countries,
+  onCountriesChange,
+  selectedCountry,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [values, setValues] = useState<RadarValues>('weighted');
+  const [reference, setReference] = useState<RadarReference>('mean');
+
+  // Countries missing from the current edition are kept but not drawn
+  const compared = useMemo(
+    () =>
+      countries.flatMap((country) => {
+        const countryData = data.find((d) => d.country === country);
+        return countryData ? [countryData] : [];
+      }),
+    [data, countries],
+  );
+
+  const options = useMemo<CountryOption[]>(
+    () =>
+      data
+        .map((d) => ({ value: d.country, label: d.country }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [data],
+  );
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const width = svgRef.current.clientWidth;
+    const height = 400;
+    const radius = Math.min(width, height) / 2 - 60;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (sectors.length < 3 || radius <= 0) return;
+
+    const g = svg.append('g').attr('transform', `translate(${width / 2},${height / 2})`);
+
+    // Values before the weights are applied are the normalized ones, which share a scale where
+    // the raw file values would not
+    const getValue = (d: CountryData, key: string) =>
+      (values === 'normalized' ? d.normalizedValues[key] : d.sectorScores[key]) ?? 0;
+
+    // The scale covers every country, so adding or removing one does not rescale the others
+    const allValues = data.flatMap((d) => sectors.map((sector) => getValue(d, sector.key)));
+    const min = Math.min(0, d3.min(allValues) ?? 0);
+    const max = d3.max(allValues) ?? 1;
+    const r = d3
+      .scaleLinear()
+      .domain([min, max > min ? max : min + 1])
+      .range([0, radius]);
+
+    // The first sector points straight up and the rest follow clockwise
+    const angle = (i: number) => (i / sectors.length) * 2 * Math.PI;
+    const toPoint = (i: number, value: number): [number, number] => [
+      Math.sin(angle(i)) * r(value),
+      -Math.cos(angle(i)) * r(value),
+    ];
+
+    // Grid rings and spokes
+    const ticks = r.ticks(4).filter((tick) => tick > min);
+    g.selectAll('polygon.ring')
+      .data(ticks)
+      .enter()
+      .append('polygon')
+      .attr('class', 'ring')
+      .attr('points', (tick) => sectors.map((_, i) => toPoint(i, tick).join(',')).join(' '))
+      .attr('fill', 'none')
+      .attr('stroke', '#E2E8F0');
+
+    g.selectAll('text.ring-label')
+      .data(ticks)
+      .enter()
+      .append('text')
+      .attr('class', 'ring-label')
+      .attr('x', 4)
+      .attr('y', (tick) => -r(tick))
+      .attr('dy', '-0.2em')
+      .text((tick) => tick.toString())
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '10px')
+      .style('fill', '#A0AEC0');
+
+    const spokes = g.selectAll('g.spoke').data(sectors).enter().append('g').attr('class', 'spoke');
+
+    spokes
+      .append('line')
+      .attr('x1', 0)
+      .attr('y1', 0)
+      .attr('x2', (_, i) => toPoint(i, r.domain()[1])[0])
+      .attr('y2', (_, i) => toPoint(i, r.domain()[1])[1])
+      .attr('stroke', '#CBD5E0');
+
+    spokes
+      .append('text')
+      .attr('x', (_, i) => Math.sin(angle(i)) * (radius + 14))
+      .attr('y', (_, i) => -Math.cos(angle(i)) * (radius + 14))
+      .attr('dy', '0.35em')
+      .style('text-anchor', (_, i) => {
+        const x = Math.sin(angle(i));
+        return Math.abs(x) < 0.1 ? 'middle' : x > 0 ? 'start' : 'end';
+      })
+      .text((sector) => sector.name)
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '12px')
+      .style('font-weight', '600')
+      .style('fill', (sector) => sector.color);
+
+    const series: RadarSeries[] = compared.map((country, i) => ({
+      label: country.country,
+      color: COUNTRY_COLORS[i % COUNTRY_COLORS.length],
+      points: sectors.map((sector) => ({
+        sector,
+        value: getValue(country, sector.key),
+        country,
+      })),
+    }));
+
+    if (reference !== 'none' && data.length > 0) {
+      const summarize = reference === 'mean' ? d3.mean : d3.median;
+      series.unshift({
+        label: reference === 'mean' ? 'Dataset average' : 'Dataset median',
+        color: '#718096',
+        points: sectors.map((sector) => ({
+          sector,
+          value: summarize(data, (d) => getValue(d, sector.key)) ?? 0,
+          country: null,
+        })),
+      });
+    }
+
+    const tooltip = d3
+      .select(tooltipRef.current)
+      .style('position', 'absolute')
+      .style('visibility', 'hidden')
+      .style('background-color', 'white')
+      .style('padding', '12px')
+      .style('border', '1px solid #ddd')
+      .style('border-radius', '6px')
+      .style('box-shadow', '0 4px 12px rgba(0, 0, 0, 0.15)')
+      .style('pointer-events', 'none')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '14px')
+      .style('z-index', '1000')
+      .style('min-width', '180px');
+
+    const seriesGroups = g
+      .selectAll('g.series')
+      .data(series)
+      .enter()
+      .append('g')
+      .attr('class', 'series');
+
+    seriesGroups
+      .append('polygon')
+      .attr('points', (s) => s.points.map((p, i) => toPoint(i, p.value).join(',')).join(' '))
+      .attr('fill', (s) => s.color)
+      .attr('fill-opacity', (s) => (s.points[0]?.country ? 0.12 : 0))
+      .attr('stroke', (s) => s.color)
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', (s) => (s.points[0]?.country ? null : '5,4'));
+
+    seriesGroups
+      .selectAll('circle')
+      .data((s) => s.points.map((point, i) => ({ series: s, point, i })))
+      .enter()
+      .append('circle')
+      .attr('cx', (d) => toPoint(d.i, d.point.value)[0])
+      .attr('cy', (d) => toPoint(d.i, d.point.value)[1])
+      .attr('r', 4)
+      .attr('fill', (d) => d.series.color)
+      .attr('stroke', 'white')
+      .attr('stroke-width', 1.5)
+      .on('mouseover', (event, d) => {
+        const { point } = d;
+        tooltip.style('visibility', 'visible').html(`
+            <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
+              ${d.series.label}
+            </div>
+            <div>
+              ${point.sector.name}: ${point.value.toFixed(3)}${point.country ? formatImputedNote(point.country, point.sector.key) : ''}
+            </div>
+            <div style="color: #718096; font-size: 12px; margin-top: 4px;">
+              ${values === 'normalized' ? 'Normalized value, before weighting' : 'Weighted score'}
+            </div>
+          `);
+
+        d3.select(event.currentTarget.parentNode).raise().select('polygon').attr('stroke-width', 3);
+      })
+      .on('mousemove', (event) => {
+        const containerRect = containerRef.current!.getBoundingClientRect();
+        const tooltipNode = tooltipRef.current!;
+
+        let left = event.clientX - containerRect.left + 16;
+        let top = event.clientY - containerRect.top;
+
+        if (left + tooltipNode.offsetWidth > containerRect.width) {
+          left = event.clientX - containerRect.left - tooltipNode.offsetWidth - 16;
+        }
+        if (top + tooltipNode.offsetHeight > containerRect.height) {
+          top = containerRect.height - tooltipNode.offsetHeight - 8;
+        }
+        if (top < 0) {
+          top = 8;
+        }
+
+        tooltip.style('left', `${left}px`).style('top', `${top}px`);
+      })
+      .on('mouseout', (event) => {
+        tooltip.style('visibility', 'hidden');
+        d3.select(event.currentTarget.parentNode).select('polygon').attr('stroke-width', 2);
+      });
+  }, [data, sectors, compared, values, reference]);
+
+  const canAdd = countries.length < MAX_COMPARED_COUNTRIES;
+  const canAddSelected =
+    canAdd &&
+    selectedCountry !== null &&
+    !countries.includes(selectedCountry) &&
+    data.some((d) => d.country === selectedCountry);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <Select<CountryOption, true>
+          isMulti
+          className="min-w-64 flex-grow"
+          options={options}
+          value={options.filter((option) => countries.includes(option.value))}
+          onChange={(selected) => onCountriesChange(selected.map((option) => option.value))}
+          isOptionDisabled={() => !canAdd}
+          placeholder={`Add up to ${MAX_COMPARED_COUNTRIES} countries...`}
+        />
+        {canAddSelected && (
+          <button
+            onClick={() => onCountriesChange([...countries, selectedCountry!])}
+            className="flex items-center gap-1 px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md text-sm text-gray-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add {selectedCountry}
+          </button>
+        )}
+        <div className="flex rounded-md bg-gray-100 p-1 w-fit">
+          {(['weighted', 'normalized'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setValues(option)}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                values === option
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title={
+                option === 'normalized'
+                  ? 'Normalized sector values before the weights are applied'
+                  : 'Sector scores after the weights are applied'
+              }
+            >
+              {option === 'weighted' ? 'Weighted' : 'Normalized'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={reference}
+          onChange={(e) => setReference(e.target.value as RadarReference)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          {REFERENCE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {sectors.length < 3 ? (
+        <p className="text-sm text-gray-500">A radar chart needs at least three sectors.</p>
+      ) : (
+        compared.length < 2 && (
+          <p className="text-sm text-gray-500">
+            Add at least two countries here, or select one on the map or in the rankings and add it.
+          </p>
+        )
+      )}
+
+      <div ref={containerRef} className="relative">
+        <svg ref={svgRef} width="100%" height="400" className="bg-white" />
+        <div ref={tooltipRef} className="absolute" />
+      </div>
+
+      {compared.length > 0 && (
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          {compared.map((country, i) => (
+            <span key={country.country} className="flex items-center gap-1">
+              <span
+                className="w-3 h-3 rounded-sm"
+                style={{ backgroundColor: COUNTRY_COLORS[i % COUNTRY_COLORS.length] }}
+              />
+              {country.country}
+              <button
+                onClick={() => onCountriesChange(countries.filter((c) => c !== country.country))}
+                className="p-0.5 rounded hover:bg-gray-100"
+                title="Remove"
+              >
+                <X className="w-3 h-3 text-gray-500" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RadarChart;
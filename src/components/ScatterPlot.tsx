@@ -0,0 +1,411 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import type { AggregationMethod, CountryData, InteractiveProps, Sector } from '../types';
+import { DEFAULT_AGGREGATION, getTotalScoreLabel } from '../utils/aggregation';
+import { linearRegression, pearson, spearman } from '../utils/correlation';
+import { formatImputedNote } from '../utils/imputation';
+import { getSectorName } from '../utils/sectors';
+
+interface Props extends InteractiveProps {
+  data: CountryData[];
+  sectors: Sector[];
+  aggregation?: AggregationMethod;
+}
+
+interface ScatterPoint {
+  country: CountryData;
+  x: number;
+  y: number;
+}
+
+// Axis key for the total score; every other key is a sector
+const TOTAL_AXIS = 'total';
+
+const ScatterPlot: React.FC<Props> = ({
+  data,
+  sectors,
+  aggregation = DEFAULT_AGGREGATION,
+  selectedCountry,
+  onCountrySelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const brushRef = useRef<d3.BrushBehavior<unknown>>();
+  // useId gives colons, which do not work inside url()
+  const clipId = `scatter-clip-${useId().replace(/:/g, '')}`;
+  const [axisKeys, setAxisKeys] = useState<[string, string] | null>(null);
+  const [sizeByTotal, setSizeByTotal] = useState(false);
+  // Countries inside the brushed rectangle
+  const [brushed, setBrushed] = useState<string[]>([]);
+
+  // The plot is redrawn only when the points change, so a new selection keeps the brush
+  const onCountrySelectRef = useRef(onCountrySelect);
+  onCountrySelectRef.current = onCountrySelect;
+  const selectedCountryRef = useRef(selectedCountry);
+  selectedCountryRef.current = selectedCountry;
+
+  const isValidKey = (key: string) =>
+    key === TOTAL_AXIS || sectors.some((sector) => sector.key === key);
+  const [xKey, yKey] =
+    axisKeys && axisKeys.every(isValidKey)
+      ? axisKeys
+      : [sectors[0]?.key ?? TOTAL_AXIS, sectors[1]?.key ?? TOTAL_AXIS];
+
+  const getAxisLabel = (key: string) =>
+    key === TOTAL_AXIS ? getTotalScoreLabel(aggregation) : getSectorName(sectors, key);
+
+  // Sectors are plotted before weighting, so a sector with zero weight still has a spread.
+  // Countries without a value on either axis are left out.
+  const points = useMemo(() => {
+    const getValue = (d: CountryData, key: string) =>
+      key === TOTAL_AXIS ? d.totalScore : d.normalizedValues[key];
+    return data.flatMap((country): ScatterPoint[] => {
+      const x = getValue(country, xKey);
+      const y = getValue(country, yKey);
+      return x === undefined || y === undefined ? [] : [{ country, x, y }];
+    });
+  }, [data, xKey, yKey]);
+
+  const stats = useMemo(() => {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    return {
+      fit: linearRegression(xs, ys),
+      pearson: pearson(xs, ys),
+      spearman: spearman(xs, ys),
+    };
+  }, [points]);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const width = svgRef.current.clientWidth;
+    const height = 400;
+    const margin = { top: 20, right: 20, bottom: 50, left: 60 };
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    setBrushed([]);
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3
+      .scaleLinear()
+      .domain(d3.extent(points, (p) => p.x) as [number, number])
+      .nice()
+      .range([0, innerWidth]);
+    const y = d3
+      .scaleLinear()
+      .domain(d3.extent(points, (p) => p.y) as [number, number])
+      .nice()
+      .range([innerHeight, 0]);
+    if (points.length === 0) {
+      x.domain([0, 1]);
+      y.domain([0, 1]);
+    }
+
+    // Radius by total score; totals can be negative, so the scale starts at the lowest one
+    const radius = d3
+      .scaleSqrt()
+      .domain([d3.min(data, (d) => d.totalScore) ?? 0, d3.max(data, (d) => d.totalScore) ?? 1])
+      .range([2, 12]);
+    const getRadius = (p: ScatterPoint) => (sizeByTotal ? radius(p.country.totalScore) : 5);
+
+    g.append('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x).ticks(6))
+      .selectAll('text')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '11px')
+      .style('font-weight', '500');
+
+    g.append('g')
+      .attr('class', 'y-axis')
+      .call(d3.axisLeft(y).ticks(6))
+      .selectAll('text')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '11px')
+      .style('font-weight', '500');
+
+    svg.selectAll('.domain, .tick line').style('stroke', '#cbd5e0').style('stroke-width', '1px');
+
+    g.append('text')
+      .attr('x', innerWidth / 2)
+      .attr('y', innerHeight + 40)
+      .style('text-anchor', 'middle')
+      .text(getAxisLabel(xKey))
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '12px')
+      .style('font-weight', '600')
+      .style('fill', '#4A5568');
+
+    g.append('text')
+      .attr('transform', 'rotate(-90)')
+      .attr('x', -innerHeight / 2)
+      .attr('y', -45)
+      .style('text-anchor', 'middle')
+      .text(getAxisLabel(yKey))
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '12px')
+      .style('font-weight', '600')
+      .style('fill', '#4A5568');
+
+    // The brush sits under the points, so dragging on empty space brushes and the points still
+    // take hovers and clicks
+    const brush = d3
+      .brush()
+      .extent([
+        [0, 0],
+        [innerWidth, innerHeight],
+      ])
+      .on('end', (event) => {
+        if (!event.selection) {
+          setBrushed([]);
+          return;
+        }
+        const [[x0, y0], [x1, y1]] = event.selection as [[number, number], [number, number]];
+        const inside = points
+          .filter((p) => x(p.x) >= x0 && x(p.x) <= x1 && y(p.y) >= y0 && y(p.y) <= y1)
+          .map((p) => p.country.country);
+        setBrushed(inside);
+        // A single country is selected straight away; several are listed to pick from
+        if (inside.length === 1) onCountrySelectRef.current(inside[0]);
+      });
+    brushRef.current = brush;
+    g.append('g').attr('class', 'brush').call(brush);
+
+    g.append('clipPath')
+      .attr('id', clipId)
+      .append('rect')
+      .attr('width', innerWidth)
+      .attr('height', innerHeight);
+
+    if (stats.fit) {
+      const { slope, intercept } = stats.fit;
+      const [xMin, xMax] = x.domain();
+      g.append('line')
+        .attr('class', 'regression')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('x1', x(xMin))
+        .attr('y1', y(intercept + slope * xMin))
+        .attr('x2', x(xMax))
+        .attr('y2', y(intercept + slope * xMax))
+        .attr('stroke', '#718096')
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', '6,4')
+        .style('pointer-events', 'none');
+    }
+
+    const tooltip = d3
+      .select(tooltipRef.current)
+      .style('position', 'absolute')
+      .style('visibility', 'hidden')
+      .style('background-color', 'white')
+      .style('padding', '12px')
+      .style('border', '1px solid #ddd')
+      .style('border-radius', '6px')
+      .style('box-shadow', '0 4px 12px rgba(0, 0, 0, 0.15)')
+      .style('pointer-events', 'none')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '14px')
+      .style('z-index', '1000')
+      .style('min-width', '200px');
+
+    const describeValue = (country: CountryData, key: string, value: number) =>
+      `${getAxisLabel(key)}: ${value.toFixed(3)}${key === TOTAL_AXIS ? '' : formatImputedNote(country, key)}`;
+
+    g.append('g')
+      .attr('class', 'points')
+      .selectAll('circle')
+      .data(points)
+      .enter()
+      .append('circle')
+      .attr('class', 'point')
+      .attr('cx', (p) => x(p.x))
+      .attr('cy', (p) => y(p.y))
+      .attr('r', getRadius)
+      .attr('stroke', 'white')
+      .attr('stroke-width', 1)
+      .style('cursor', 'pointer')
+      .on('mouseover', (event, p) => {
+        tooltip.style('visibility', 'visible').html(`
+            <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
+              ${p.country.country}
+            </div>
+            <div>${describeValue(p.country, xKey, p.x)}</div>
+            <div>${describeValue(p.country, yKey, p.y)}</div>
+            <div style="color: #4A5568; margin-top: 4px;">Rank: #${p.country.rank}</div>
+          `);
+
+        d3.select(event.currentTarget).raise().attr('stroke', '#1A202C').attr('stroke-width', 2);
+      })
+      .on('mousemove', (event) => {
+        const containerRect = containerRef.current!.getBoundingClientRect();
+        const tooltipNode = tooltipRef.current!;
+
+        let left = event.clientX - containerRect.left + 16;
+        let top = event.clientY - containerRect.top;
+
+        if (left + tooltipNode.offsetWidth > containerRect.width) {
+          left = event.clientX - containerRect.left - tooltipNode.offsetWidth - 16;
+        }
+        if (top + tooltipNode.offsetHeight > containerRect.height) {
+          top = containerRect.height - tooltipNode.offsetHeight - 8;
+        }
+        if (top < 0) {
+          top = 8;
+        }
+
+        tooltip.style('left', `${left}px`).style('top', `${top}px`);
+      })
+      .on('mouseout', (event, p) => {
+        tooltip.style('visibility', 'hidden');
+        const isSelected = p.country.country === selectedCountryRef.current;
+        d3.select(event.currentTarget)
+          .attr('stroke', isSelected ? '#1A202C' : 'white')
+          .attr('stroke-width', isSelected ? 2 : 1);
+      })
+      .on('click', (_, p) => {
+        const country = p.country.country;
+        onCountrySelectRef.current(country === selectedCountryRef.current ? null : country);
+      });
+
+    g.append('text')
+      .attr('class', 'selected-label')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '12px')
+      .style('font-weight', '600')
+      .style('fill', '#1A202C')
+      .style('pointer-events', 'none');
+  }, [points, stats, sizeByTotal, data, clipId]);
+
+  // Selection and brushing only restyle the points
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const hasBrush = brushed.length > 0;
+
+    const circles = svg
+      .selectAll<SVGCircleElement, ScatterPoint>('circle.point')
+      .attr('fill', (p) =>
+        p.country.country === selectedCountry
+          ? '#C05621'
+          : brushed.includes(p.country.country)
+            ? '#2B6CB0'
+            : '#63B3ED',
+      )
+      .attr('fill-opacity', (p) =>
+        !hasBrush || brushed.includes(p.country.country) || p.country.country === selectedCountry
+          ? 0.85
+          : 0.25,
+      )
+      .attr('stroke', (p) => (p.country.country === selectedCountry ? '#1A202C' : 'white'))
+      .attr('stroke-width', (p) => (p.country.country === selectedCountry ? 2 : 1));
+
+    const selected = circles.filter((p) => p.country.country === selectedCountry).raise();
+    const label = svg.select<SVGTextElement>('text.selected-label');
+    if (selected.empty()) {
+      label.text('');
+    } else {
+      const node = selected.node()!;
+      label
+        .attr('x', Number(node.getAttribute('cx')) + Number(node.getAttribute('r')) + 4)
+        .attr('y', Number(node.getAttribute('cy')))
+        .attr('dy', '0.35em')
+        .text(selectedCountry!)
+        .raise();
+    }
+  }, [points, stats, sizeByTotal, selectedCountry, brushed]);
+
+  const clearBrush = () => {
+    if (!svgRef.current || !brushRef.current) return;
+    d3.select(svgRef.current)
+      .select<SVGGElement>('g.brush')
+      .call(brushRef.current.move as any, null);
+  };
+
+  const formatCoefficient = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+
+  const axisOptions = [
+    { value: TOTAL_AXIS, label: getTotalScoreLabel(aggregation) },
+    ...sectors.map((sector) => ({ value: sector.key, label: sector.name })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600">
+        <div className="flex flex-wrap items-center gap-3">
+          {(['x', 'y'] as const).map((axis) => (
+            <label key={axis} className="flex items-center gap-2">
+              {axis === 'x' ? 'X' : 'Y'}
+              <select
+                value={axis === 'x' ? xKey : yKey}
+                onChange={(e) =>
+                  setAxisKeys(axis === 'x' ? [e.target.value, yKey] : [xKey, e.target.value])
+                }
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              >
+                {axisOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={sizeByTotal}
+              onChange={(e) => setSizeByTotal(e.target.checked)}
+            />
+            Size by total score
+          </label>
+        </div>
+        <div className="text-gray-700" title="Correlation across the countries plotted">
+          Pearson r = {formatCoefficient(stats.pearson)} · Spearman ρ ={' '}
+          {formatCoefficient(stats.spearman)} · n = {points.length}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Sectors are plotted by their normalized values, before weighting. The dashed line is the
+        least-squares fit. Drag across the plot to select several countries.
+      </p>
+
+      <div ref={containerRef} className="relative">
+        <svg ref={svgRef} width="100%" height="400" className="bg-white" />
+        <div ref={tooltipRef} className="absolute" />
+      </div>
+
+      {brushed.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">
+            {brushed.length} {brushed.length === 1 ? 'country' : 'countries'} selected:
+          </span>
+          {brushed.map((country) => (
+            <button
+              key={country}
+              onClick={() => onCountrySelect(country)}
+              className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                country === selectedCountry
+                  ? 'bg-orange-100 text-orange-800'
+                  : 'bg-blue-50 text-blue-800 hover:bg-blue-100'
+              }`}
+            >
+              {country}
+            </button>
+          ))}
+          <button onClick={clearBrush} className="text-xs text-gray-500 hover:text-gray-700">
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScatterPlot;
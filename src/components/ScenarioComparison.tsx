@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import type { CountryData, Scenario, SectorWeights } from '../types';
+
+interface Props {
+  scenarios: Scenario[];
+  currentWeights: SectorWeights;
+  // Scores the current edition with the given weights and the active processing options
+  rankWithWeights: (weights: SectorWeights) => CountryData[];
+  selectedCountry: string | null;
+  onCountrySelect: (country: string | null) => void;
+}
+
+interface ComparisonRow {
+  country: string;
+  rankA: number;
+  rankB: number;
+  scoreA: number;
+  scoreB: number;
+  // Places gained going from scenario A to scenario B
+  shift: number;
+  delta: number;
+}
+
+const CURRENT_ID = 'current';
+
+function getShiftColor(shift: number): string {
+  if (shift > 0) return '#38A169';
+  if (shift < 0) return '#E53E3E';
+  return '#A0AEC0';
+}
+
+const ScenarioComparison: React.FC<Props> = ({
+  scenarios,
+  currentWeights,
+  rankWithWeights,
+  selectedCountry,
+  onCountrySelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const options = useMemo<Scenario[]>(
+    () => [{ id: CURRENT_ID, name: 'Current weights', weights: currentWeights }, ...scenarios],
+    [currentWeights, scenarios],
+  );
+  const [scenarioAId, setScenarioAId] = useState<string>(CURRENT_ID);
+  const [scenarioBId, setScenarioBId] = useState<string>(scenarios[0]?.id ?? CURRENT_ID);
+
+  // Fall back to the first options when a compared scenario is deleted
+  const scenarioA = options.find((option) => option.id === scenarioAId) ?? options[0];
+  const scenarioB = options.find((option) => option.id === scenarioBId) ?? options[1] ?? options[0];
+
+  const rows = useMemo<ComparisonRow[]>(() => {
+    const resultB = new Map(rankWithWeights(scenarioB.weights).map((d) => [d.country, d]));
+    return rankWithWeights(scenarioA.weights)
+      .flatMap((a) => {
+        const b = resultB.get(a.country);
+        return b
+          ? [
+              {
+                country: a.country,
+                rankA: a.rank,
+                rankB: b.rank,
+                scoreA: a.totalScore,
+                scoreB: b.totalScore,
+                shift: a.rank - b.rank,
+                delta: b.totalScore - a.totalScore,
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => a.rankB - b.rankB);
+  }, [rankWithWeights, scenarioA, scenarioB]);
+
+  const maxDelta = d3.max(rows, (row) => Math.abs(row.delta)) || 1;
+
+  useEffect(() => {
+    if (!svgRef.current || rows.length === 0) return;
+
+    const width = svgRef.current.clientWidth;
+    const margin = { top: 30, right: 160, bottom: 10, left: 160 };
+    const height = margin.top + margin.bottom + rows.length * 22;
+    const innerWidth = width - margin.left - margin.right;
+
+    const svg = d3.select(svgRef.current).attr('height', height);
+    svg.selectAll('*').remove();
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const maxRank = d3.max(rows, (row) => Math.max(row.rankA, row.rankB)) || 1;
+    const y = d3
+      .scaleLinear()
+      .domain([1, Math.max(maxRank, 2)])
+      .range([0, rows.length * 22 - 22]);
+
+    const font = "'Inter', 'Helvetica', 'Arial', sans-serif";
+
+    [
+      { x: 0, label: scenarioA.name, anchor: 'end' },
+      { x: innerWidth, label: scenarioB.name, anchor: 'start' },
+    ].forEach(({ x, label, anchor }) => {
+      g.append('text')
+        .attr('x', x)
+        .attr('y', -14)
+        .attr('text-anchor', anchor === 'end' ? 'end' : 'start')
+        .text(label)
+        .style('font-family', font)
+        .style('font-size', '13px')
+        .style('font-weight', '700')
+        .style('fill', '#2D3748');
+    });
+
+    const slopes = g
+      .selectAll('g.slope')
+      .data(rows)
+      .enter()
+      .append('g')
+      .attr('class', 'slope')
+      .style('cursor', 'pointer')
+      .style('opacity', (row) => (selectedCountry && selectedCountry !== row.country ? 0.3 : 1))
+      .on('click', (_event, row) => {
+        onCountrySelect(row.country === selectedCountry ? null : row.country);
+      })
+      .on('mouseover', (event) => {
+        d3.select(event.currentTarget).select('line').attr('stroke-width', 3);
+      })
+      .on('mouseout', (event, row) => {
+        d3.select(event.currentTarget)
+          .select('line')
+          .attr('stroke-width', row.country === selectedCountry ? 3 : 1.5);
+      });
+
+    slopes
+      .append('line')
+      .attr('x1', 0)
+      .attr('x2', innerWidth)
+      .attr('y1', (row) => y(row.rankA))
+      .attr('y2', (row) => y(row.rankB))
+      .attr('stroke', (row) => getShiftColor(row.shift))
+      .attr('stroke-width', (row) => (row.country === selectedCountry ? 3 : 1.5));
+
+    slopes
+      .append('text')
+      .attr('x', -8)
+      .attr('y', (row) => y(row.rankA))
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .text((row) => `${row.country} ${row.rankA}`)
+      .style('font-family', font)
+      .style('font-size', '12px')
+      .style('fill', '#4A5568');
+
+    slopes
+      .append('text')
+      .attr('x', innerWidth + 8)
+      .attr('y', (row) => y(row.rankB))
+      .attr('dy', '0.35em')
+      .text((row) => `${row.rankB} ${row.country}`)
+      .style('font-family', font)
+      .style('font-size', '12px')
+      .style('font-weight', (row) => (row.country === selectedCountry ? '700' : '400'))
+      .style('fill', (row) => getShiftColor(row.shift));
+  }, [rows, scenarioA.name, scenarioB.name, selectedCountry, onCountrySelect]);
+
+  const renderScenarioSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+    >
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-sm text-gray-600">
+        {renderScenarioSelect(scenarioA.id, setScenarioAId)}
+        <span>compared with</span>
+        {renderScenarioSelect(scenarioB.id, setScenarioBId)}
+      </div>
+
+      <svg ref={svgRef} width="100%" className="bg-white" />
+
+      <div className="overflow-y-auto max-h-96">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Country
+              </th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Rank
+              </th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Shift
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Score delta
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr
+                key={row.country}
+                onClick={() =>
+                  onCountrySelect(row.country === selectedCountry ? null : row.country)
+                }
+                className={`cursor-pointer hover:bg-gray-50 ${
+                  selectedCountry === row.country ? 'bg-blue-50' : ''
+                }`}
+              >
+                <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {row.country}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                  {row.rankA} → {row.rankB}
+                </td>
+                <td
+                  className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium"
+                  style={{ color: getShiftColor(row.shift) }}
+                >
+                  {row.shift > 0 ? `▲${row.shift}` : row.shift < 0 ? `▼${-row.shift}` : '–'}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                  <div className="flex items-center gap-2">
+                    {/* Diverging bar centred on zero */}
+                    <div className="relative w-24 h-3 bg-gray-100 rounded">
+                      <div className="absolute left-1/2 top-0 h-3 w-px bg-gray-400" />
+                      <div
+                        className="absolute top-0 h-3 rounded"
+                        style={{
+                          backgroundColor: row.delta >= 0 ? '#38A169' : '#E53E3E',
+                          width: `${(Math.abs(row.delta) / maxDelta) * 50}%`,
+                          left:
+                            row.delta >= 0
+                              ? '50%'
+                              : `${50 - (Math.abs(row.delta) / maxDelta) * 50}%`,
+                        }}
+                      />
+                    </div>
+                    <span title={`${row.scoreA.toFixed(3)} → ${row.scoreB.toFixed(3)}`}>
+                      {row.delta >= 0 ? '+' : ''}
+                      {row.delta.toFixed(3)}
+                    </span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
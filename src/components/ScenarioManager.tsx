@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Check, Copy, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import type { Scenario } from '../types';
+import { DEFAULT_SCENARIO_ID } from '../utils/scenarios';
+
+interface Props {
+  scenarios: Scenario[];
+  activeScenarioId: string;
+  // Whether the sliders differ from the active scenario's weights
+  isModified: boolean;
+  onSelect: (id: string) => void;
+  onSave: () => void;
+  onSaveAs: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ScenarioManager: React.FC<Props> = ({
+  scenarios,
+  activeScenarioId,
+  isModified,
+  onSelect,
+  onSave,
+  onSaveAs,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  // Id of the scenario being renamed, or 'new' while naming a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+  };
+
+  const commitEdit = () => {
+    const name = draftName.trim();
+    if (name) {
+      if (editingId === 'new') onSaveAs(name);
+      else if (editingId) onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const renderNameInput = () => (
+    <div className="flex items-center gap-1 flex-grow">
+      <input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitEdit();
+          if (e.key === 'Escape') setEditingId(null);
+        }}
+        className="flex-grow min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+        placeholder="Scenario name"
+      />
+      <button onClick={commitEdit} className="p-1 rounded hover:bg-gray-100" title="Save name">
+        <Check className="w-4 h-4 text-green-600" />
+      </button>
+      <button
+        onClick={() => setEditingId(null)}
+        className="p-1 rounded hover:bg-gray-100"
+        title="Cancel"
+      >
+        <X className="w-4 h-4 text-gray-500" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1">
+        {scenarios.map((scenario) => {
+          const isActive = scenario.id === activeScenarioId;
+          const isDefault = scenario.id === DEFAULT_SCENARIO_ID;
+
+          return (
+            <li
+              key={scenario.id}
+              className={`flex items-center gap-1 rounded-md px-2 py-1 ${
+                isActive ? 'bg-blue-50 border border-blue-200' : 'border border-transparent'
+              }`}
+            >
+              {editingId === scenario.id ? (
+                renderNameInput()
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(scenario.id)}
+                    className={`flex-grow text-left text-sm truncate ${
+                      isActive ? 'font-semibold text-blue-700' : 'text-gray-700 hover:text-gray-900'
+                    }`}
+                    title={`Load ${scenario.name}`}
+                  >
+                    {scenario.name}
+                    {isActive && isModified && (
+                      <span className="ml-1 font-normal text-amber-600">(modified)</span>
+                    )}
+                  </button>
+                  {!isDefault && (
+                    <button
+                      onClick={() => startEditing(scenario.id, scenario.name)}
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Rename"
+                    >
+                      <Pencil className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDuplicate(scenario.id)}
+                    className="p-1 rounded hover:bg-gray-100"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-4 h-4 text-gray-500" />
+                  </button>
+                  {!isDefault && (
+                    <button
+                      onClick={() => onDelete(scenario.id)}
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {editingId === 'new' ? (
+        <div className="flex">{renderNameInput()}</div>
+      ) : (
+        <div className="flex gap-2">
+          {isModified && activeScenarioId !== DEFAULT_SCENARIO_ID && (
+            <button
+              onClick={onSave}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 rounded-md text-sm text-white transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              Save changes
+            </button>
+          )}
+          <button
+            onClick={() => startEditing('new', '')}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md text-sm text-gray-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Save as new
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioManager;
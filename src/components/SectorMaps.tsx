@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Loader2 } from 'lucide-react';
+import type { ColorScheme, CountryData, InteractiveProps, Sector } from '../types';
+import { type ColorScale, DEFAULT_COLOR_SCHEME, createColorScale } from '../utils/colorScale';
+import { formatImputedNote } from '../utils/imputation';
+import { DEFAULT_MAP_PROJECTION, createProjection } from '../utils/mapProjections';
+import { type CountryFeature, loadWorldGeometry } from '../utils/worldGeometry';
+import ColorLegend from './ColorLegend';
+
+interface Props extends Partial<InteractiveProps> {
+  data: CountryData[];
+  sectors: Sector[];
+  colorScheme?: ColorScheme;
+}
+
+interface SectorMapProps {
+  sector: Sector;
+  features: CountryFeature[];
+  dataByCode: Map<string, CountryData>;
+  scale: ColorScale;
+  selectedCountry: string | null;
+  // ISO code of the country under the pointer in any of the maps
+  hoveredCode: string | null;
+  onHover: (code: string | null) => void;
+  onSelect: (country: string) => void;
+}
+
+const MAP_ASPECT_RATIO = 0.5;
+
+const SectorMap: React.FC<SectorMapProps> = ({
+  sector,
+  features,
+  dataByCode,
+  scale,
+  selectedCountry,
+  hoveredCode,
+  onHover,
+  onSelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const width = svgRef.current.clientWidth;
+    const height = width * MAP_ASPECT_RATIO;
+    const svg = d3.select(svgRef.current).attr('height', height);
+    svg.selectAll('*').remove();
+
+    const path = d3.geoPath(createProjection(DEFAULT_MAP_PROJECTION, width, height));
+
+    svg
+      .append('path')
+      .datum<d3.GeoPermissibleObjects>({ type: 'Sphere' })
+      .attr('d', path)
+      .attr('fill', '#ffffff')
+      .attr('stroke', '#cbd5e0')
+      .attr('stroke-width', 0.5);
+
+    svg
+      .append('g')
+      .selectAll<SVGPathElement, CountryFeature>('path')
+      .data(features)
+      .enter()
+      .append('path')
+      .attr('class', 'country')
+      .attr('d', path)
+      .attr('fill', (d) => {
+        const countryData = dataByCode.get(d.properties.countryCode ?? '');
+        return countryData ? scale.color(countryData.sectorScores[sector.key] ?? 0) : '#e2e8f0';
+      })
+      .attr('stroke', '#cbd5e0')
+      .attr('stroke-width', 0.3)
+      .style('cursor', (d) => (dataByCode.has(d.properties.countryCode ?? '') ? 'pointer' : null))
+      .on('mouseover', (_, d) => onHover(d.properties.countryCode))
+      .on('mouseout', () => onHover(null))
+      .on('click', (_, d) => {
+        const countryData = dataByCode.get(d.properties.countryCode ?? '');
+        if (countryData) onSelect(countryData.country);
+      });
+  }, [features, dataByCode, scale, sector.key, onHover, onSelect]);
+
+  // Hover and selection only restyle the outlines, so moving the pointer does not redraw
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const selectedCode =
+      Array.from(dataByCode.values()).find((d) => d.country === selectedCountry)?.countryCode ??
+      null;
+
+    d3.select(svgRef.current)
+      .selectAll<SVGPathElement, CountryFeature>('path.country')
+      .attr('stroke', (d) =>
+        d.properties.countryCode === hoveredCode
+          ? '#1A202C'
+          : d.properties.countryCode === selectedCode
+            ? '#2B6CB0'
+            : '#cbd5e0',
+      )
+      .attr('stroke-width', (d) =>
+        d.properties.countryCode === hoveredCode || d.properties.countryCode === selectedCode
+          ? 1.5
+          : 0.3,
+      )
+      .filter(
+        (d) =>
+          d.properties.countryCode === hoveredCode || d.properties.countryCode === selectedCode,
+      )
+      .raise();
+  }, [features, dataByCode, scale, hoveredCode, selectedCountry]);
+
+  const hovered = hoveredCode ? dataByCode.get(hoveredCode) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 font-medium text-gray-900">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: sector.color }} />
+          {sector.name}
+        </span>
+        {hovered && (
+          <span className="text-xs text-gray-600 truncate">
+            {hovered.country}: {(hovered.sectorScores[sector.key] ?? 0).toFixed(3)}
+            {formatImputedNote(hovered, sector.key)}
+          </span>
+        )}
+      </div>
+      <svg ref={svgRef} width="100%" className="bg-gray-50 rounded" />
+    </div>
+  );
+};
+
+// One compact map per sector, each colored on its own scale with the shared classification
+const SectorMaps: React.FC<Props> = ({
+  data,
+  sectors,
+  colorScheme = DEFAULT_COLOR_SCHEME,
+  selectedCountry = null,
+  onCountrySelect,
+}) => {
+  const [features, setFeatures] = useState<CountryFeature[] | null>(null);
+  const [hasError, setHasError] = useState(false);
+  const [hoveredCode, setHoveredCode] = useState<string | null>(null);
+
+  // The overview maps are too small for the detailed borders to show
+  useEffect(() => {
+    let isCancelled = false;
+    loadWorldGeometry('110m').then(
+      (geometry) => {
+        if (!isCancelled) setFeatures(geometry.features);
+      },
+      (error) => {
+        console.error('Map geometry loading error:', error);
+        if (!isCancelled) setHasError(true);
+      },
+    );
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const dataByCode = useMemo(
+    () => new Map(data.filter((d) => d.countryCode).map((d) => [d.countryCode!, d])),
+    [data],
+  );
+
+  const scales = useMemo(
+    () =>
+      new Map(
+        sectors.map((sector) => [
+          sector.key,
+          createColorScale(
+            data.map((d) => d.sectorScores[sector.key] ?? 0),
+            colorScheme,
+          ),
+        ]),
+      ),
+    [data, sectors, colorScheme],
+  );
+
+  // Read through refs so a click does not hand the maps a new handler, which would redraw them
+  const onCountrySelectRef = useRef(onCountrySelect);
+  onCountrySelectRef.current = onCountrySelect;
+  const selectedCountryRef = useRef(selectedCountry);
+  selectedCountryRef.current = selectedCountry;
+
+  const handleSelect = useCallback(
+    (country: string) =>
+      onCountrySelectRef.current?.(country === selectedCountryRef.current ? null : country),
+    [],
+  );
+
+  if (hasError) {
+    return <p className="text-sm text-red-700">The maps could not be loaded.</p>;
+  }
+  if (!features) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading maps…
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {sectors.map((sector) => (
+        <div key={sector.key} className="space-y-2">
+          <SectorMap
+            sector={sector}
+            features={features}
+            dataByCode={dataByCode}
+            scale={scales.get(sector.key)!}
+            selectedCountry={selectedCountry}
+            hoveredCode={hoveredCode}
+            onHover={setHoveredCode}
+            onSelect={handleSelect}
+          />
+          <ColorLegend scale={scales.get(sector.key)!} title="Weighted score" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SectorMaps;
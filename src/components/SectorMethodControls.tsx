@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import Select from 'react-select';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { Sector } from '../types';
+
+export interface MethodInfo<M extends string> {
+  value: M;
+  label: string;
+  description: string;
+}
+
+// A dataset-wide method plus per-sector exceptions, as used for normalization and imputation
+export interface SectorMethodSettings<M extends string> {
+  method: M;
+  sectorMethods: Record<string, M>;
+}
+
+interface Props<M extends string> {
+  sectors: Sector[];
+  methods: MethodInfo<M>[];
+  settings: SectorMethodSettings<M>;
+  onChange: (settings: SectorMethodSettings<M>) => void;
+  // Extra text shown next to a sector name, such as its number of missing values
+  sectorNotes?: Record<string, string>;
+  summary?: string;
+}
+
+interface MethodOption<M extends string> {
+  value: M | null;
+  label: string;
+}
+
+const selectClassNames = {
+  control: (state: { isFocused: boolean }) =>
+    `!bg-white !border-gray-300 !shadow-sm !min-h-0 hover:!border-gray-400 ${
+      state.isFocused ? '!border-blue-500 !ring-1 !ring-blue-500' : ''
+    }`,
+  option: (state: { isSelected: boolean; isFocused: boolean }) =>
+    `!py-2 !px-3 ${
+      state.isSelected
+        ? '!bg-blue-500 !text-white'
+        : state.isFocused
+          ? '!bg-blue-50 !text-gray-900'
+          : '!text-gray-700'
+    }`,
+};
+
+function SectorMethodControls<M extends string>({
+  sectors,
+  methods,
+  settings,
+  onChange,
+  sectorNotes = {},
+  summary,
+}: Props<M>): React.ReactElement {
+  const [showSectors, setShowSectors] = useState(Object.keys(settings.sectorMethods).length > 0);
+
+  const methodOptions: MethodOption<M>[] = methods.map((info) => ({
+    value: info.value,
+    label: info.label,
+  }));
+  const current = methods.find((info) => info.value === settings.method);
+
+  // Sectors fall back to the dataset method unless given their own
+  const sectorOptions: MethodOption<M>[] = [
+    { value: null, label: `Same as dataset (${current?.label ?? settings.method})` },
+    ...methodOptions,
+  ];
+
+  const handleSectorChange = (sectorKey: string, method: M | null) => {
+    const { [sectorKey]: _previous, ...rest } = settings.sectorMethods;
+    onChange({
+      ...settings,
+      sectorMethods: method && method !== settings.method ? { ...rest, [sectorKey]: method } : rest,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select<MethodOption<M>>
+        className="text-sm"
+        value={methodOptions.find((option) => option.value === settings.method)}
+        onChange={(option) => option?.value && onChange({ ...settings, method: option.value })}
+        options={methodOptions}
+        isSearchable={false}
+        classNames={selectClassNames}
+      />
+      {current && <p className="text-xs text-gray-500">{current.description}</p>}
+
+      <button
+        onClick={() => setShowSectors((show) => !show)}
+        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        {showSectors ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        Per-sector methods
+      </button>
+
+      {showSectors && (
+        <div className="space-y-2">
+          {sectors.map((sector) => (
+            <div key={sector.key}>
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1">
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ backgroundColor: sector.color }}
+                ></span>
+                {sector.name}
+                {sectorNotes[sector.key] && (
+                  <span className="font-normal text-gray-500">{sectorNotes[sector.key]}</span>
+                )}
+              </label>
+              <Select<MethodOption<M>>
+                className="text-sm"
+                value={
+                  sectorOptions.find(
+                    (option) => option.value === (settings.sectorMethods[sector.key] ?? null),
+                  ) ?? sectorOptions[0]
+                }
+                onChange={(option) => handleSectorChange(sector.key, option?.value ?? null)}
+                options={sectorOptions}
+                isSearchable={false}
+                classNames={selectClassNames}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary && (
+        <div className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+          {summary}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SectorMethodControls;
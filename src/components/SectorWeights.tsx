@@ -1,18 +1,46 @@
-import React, { useMemo } from 'react';
-import type { SectorWeights as SectorWeightsType } from '../types';
-import { sectorNames } from '../utils/constants';
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import type { Sector, SectorWeights as SectorWeightsType } from '../types';
+import { balanceWeights, getTotalPercentage, normalizeWeights } from '../utils/weights';
 
 interface Props {
+  sectors: Sector[];
   weights: SectorWeightsType;
-  onChange: (sector: string, value: number) => void;
+  onChange: (weights: SectorWeightsType) => void;
 }
 
-const SectorWeights: React.FC<Props> = ({ weights, onChange }) => {
-  const totalWeight = useMemo(() => {
-    return Object.values(weights).reduce((sum, weight) => sum + weight, 0);
-  }, [weights]);
+// Balanced mode keeps the total at 100% by adjusting the unlocked sectors; free mode moves each
+// slider on its own
+type WeightMode = 'balanced' | 'free';
 
-  const totalPercentage = Math.round(totalWeight * 100);
+const SectorWeights: React.FC<Props> = ({ sectors, weights, onChange }) => {
+  const [mode, setMode] = useState<WeightMode>('balanced');
+  const [lockedSectors, setLockedSectors] = useState<string[]>([]);
+
+  const sectorKeys = sectors.map((sector) => sector.key);
+  const totalPercentage = getTotalPercentage(weights);
+
+  const handleWeightChange = (sectorKey: string, value: number) => {
+    if (mode === 'balanced') {
+      onChange(balanceWeights(weights, sectorKeys, sectorKey, value, lockedSectors));
+    } else {
+      onChange({ ...weights, [sectorKey]: Math.min(1, Math.max(0, value)) });
+    }
+  };
+
+  const handleModeChange = (nextMode: WeightMode) => {
+    setMode(nextMode);
+    // Balancing assumes the total is already 100%
+    if (nextMode === 'balanced' && totalPercentage !== 100) {
+      onChange(normalizeWeights(weights, sectorKeys, lockedSectors));
+    }
+  };
+
+  const toggleLock = (sectorKey: string) => {
+    setLockedSectors((prev) =>
+      prev.includes(sectorKey) ? prev.filter((key) => key !== sectorKey) : [...prev, sectorKey],
+    );
+  };
 
   const getTotalStatusInfo = () => {
     if (totalPercentage === 100) {
@@ -45,6 +73,22 @@ const SectorWeights: React.FC<Props> = ({ weights, onChange }) => {
 
   return (
     <div className="space-y-4">
+      <div className="flex rounded-md bg-gray-100 p-1">
+        {(['balanced', 'free'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => handleModeChange(option)}
+            className={`flex-1 px-3 py-1 rounded text-sm font-medium transition-colors ${
+              mode === option
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {option === 'balanced' ? 'Auto-balance' : 'Free'}
+          </button>
+        ))}
+      </div>
+
       <div className={`p-3 rounded-md ${statusInfo.bgColor} border ${statusInfo.borderColor} mb-4`}>
         <div className="flex justify-between items-center">
           <span className="text-sm font-medium">Current total:</span>
@@ -63,28 +107,74 @@ const SectorWeights: React.FC<Props> = ({ weights, onChange }) => {
             style={{ width: `${Math.min(totalPercentage, 100)}%` }}
           ></div>
         </div>
+        {totalPercentage !== 100 && (
+          <button
+            onClick={() => onChange(normalizeWeights(weights, sectorKeys, lockedSectors))}
+            className="mt-2 w-full px-3 py-1 bg-white border border-gray-300 hover:bg-gray-50 rounded-md text-sm text-gray-700 transition-colors"
+          >
+            Normalize to 100%
+          </button>
+        )}
       </div>
 
-      {Object.entries(weights).map(([sector, weight]) => (
-        <div key={sector} className="space-y-2">
-          <div className="flex justify-between items-center">
-            <label className="text-sm font-medium text-gray-700">{sectorNames[sector]}</label>
-            <span className="text-sm text-gray-500">{Math.round(weight * 100)}%</span>
+      {sectors.map((sector) => {
+        const weight = weights[sector.key] ?? 0;
+        const isLocked = lockedSectors.includes(sector.key);
+
+        return (
+          <div key={sector.key} className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ backgroundColor: sector.color }}
+                ></span>
+                {sector.name}
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={Math.round(weight * 100)}
+                  disabled={isLocked}
+                  onChange={(e) => {
+                    if (e.target.value === '') return;
+                    handleWeightChange(sector.key, Number(e.target.value) / 100);
+                  }}
+                  className="w-14 px-1 py-0.5 border border-gray-300 rounded text-sm text-right text-gray-700 disabled:bg-gray-100 disabled:text-gray-400"
+                />
+                <span className="text-sm text-gray-500">%</span>
+                <button
+                  onClick={() => toggleLock(sector.key)}
+                  className="p-1 rounded hover:bg-gray-100 transition-colors"
+                  title={isLocked ? 'Unlock weight' : 'Lock weight'}
+                >
+                  {isLocked ? (
+                    <Lock className="w-4 h-4 text-gray-700" />
+                  ) : (
+                    <Unlock className="w-4 h-4 text-gray-400" />
+                  )}
+                </button>
+              </div>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={Math.round(weight * 100)}
+              disabled={isLocked}
+              onChange={(e) => {
+                const value = Number(e.target.value) / 100;
+                handleWeightChange(sector.key, value);
+              }}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+            />
           </div>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            step="5"
-            value={weight * 100}
-            onChange={(e) => {
-              const value = Number(e.target.value) / 100;
-              onChange(sector, value);
-            }}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
-          />
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
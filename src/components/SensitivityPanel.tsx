@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Play, Square } from 'lucide-react';
+import type {
+  AggregationMethod,
+  CountryData,
+  Sector,
+  SectorWeights,
+  SensitivityResult,
+  SensitivitySettings,
+} from '../types';
+import {
+  DEFAULT_SENSITIVITY,
+  SAMPLE_COUNTS,
+  SENSITIVITY_METHODS,
+  type SensitivityMessage,
+  type SensitivityRequest,
+  formatRank,
+  isSensitivityCurrent,
+} from '../utils/sensitivity';
+
+interface Props {
+  // Current ranking, for the rank under the current weights
+  data: CountryData[];
+  // The same edition before weighting, which the samples are scored from
+  preparedData: CountryData[];
+  sectors: Sector[];
+  weights: SectorWeights;
+  year: string;
+  aggregation: AggregationMethod;
+  result: SensitivityResult | null;
+  onResult: (result: SensitivityResult | null) => void;
+  selectedCountry: string | null;
+  onCountrySelect: (country: string | null) => void;
+}
+
+const SensitivityPanel: React.FC<Props> = ({
+  data,
+  preparedData,
+  sectors,
+  weights,
+  year,
+  aggregation,
+  result,
+  onResult,
+  selectedCountry,
+  onCountrySelect,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const [settings, setSettings] = useState<SensitivitySettings>(DEFAULT_SENSITIVITY);
+  const [completed, setCompleted] = useState<number | null>(null);
+
+  const isRunning = completed !== null;
+  const isCurrent = isSensitivityCurrent(result, weights, year);
+
+  // A running worker is of no use once the panel is gone
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Nor is one sampling data that has since changed, as its result would pass for current
+  useEffect(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setCompleted(null);
+  }, [preparedData, aggregation]);
+
+  const updateSettings = (changes: Partial<SensitivitySettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setCompleted(null);
+  };
+
+  const run = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../workers/sensitivity.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+    setCompleted(0);
+
+    const runSettings = settings;
+    const runWeights = weights;
+    const runYear = year;
+    worker.onmessage = (event: MessageEvent<SensitivityMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setCompleted(message.completed);
+        return;
+      }
+      onResult({
+        settings: runSettings,
+        weights: runWeights,
+        year: runYear,
+        countries: message.countries,
+      });
+      cancel();
+    };
+    worker.onerror = (event) => {
+      console.error('Sensitivity analysis failed:', event.message);
+      cancel();
+    };
+
+    const request: SensitivityRequest = { data: preparedData, weights, settings, aggregation };
+    worker.postMessage(request);
+  };
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const currentRanks = new Map(data.map((d) => [d.country, d.rank]));
+    // Countries outside the current view (a group filter) are left out
+    return result.countries
+      .filter((country) => currentRanks.has(country.country))
+      .map((country) => ({ ...country, rank: currentRanks.get(country.country) ?? null }))
+      .sort((a, b) => a.medianRank - b.medianRank || (a.rank ?? 0) - (b.rank ?? 0));
+  }, [result, data]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (rows.length === 0) return;
+
+    const rowHeight = 20;
+    const width = svgRef.current.clientWidth;
+    const margin = { top: 30, right: 20, bottom: 10, left: 160 };
+    const height = margin.top + margin.bottom + rows.length * rowHeight;
+    svg.attr('height', height);
+
+    const maxRank = d3.max(rows, (row) => Math.max(row.rankHigh, row.rank ?? 0)) || 1;
+    const x = d3
+      .scaleLinear()
+      .domain([1, Math.max(maxRank, 2)])
+      .range([0, width - margin.left - margin.right]);
+
+    const font = "'Inter', 'Helvetica', 'Arial', sans-serif";
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    g.append('g')
+      .call(d3.axisTop(x).ticks(Math.min(maxRank, 10)).tickFormat(d3.format('d')))
+      .call((axis) => axis.selectAll('text').style('font-family', font).style('fill', '#4A5568'));
+
+    const topNLimit = result?.settings.topN ?? 0;
+    if (topNLimit > 0 && topNLimit < maxRank) {
+      g.append('rect')
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('width', x(topNLimit + 0.5))
+        .attr('height', rows.length * rowHeight)
+        .attr('fill', '#EBF8FF');
+    }
+
+    const items = g
+      .selectAll('g.interval')
+      .data(rows)
+      .enter()
+      .append('g')
+      .attr('class', 'interval')
+      .attr('transform', (_row, i) => `translate(0,${i * rowHeight + rowHeight / 2})`)
+      .style('cursor', 'pointer')
+      .style('opacity', (row) => (selectedCountry && selectedCountry !== row.country ? 0.3 : 1))
+      .on('click', (_event, row) => {
+        onCountrySelect(row.country === selectedCountry ? null : row.country);
+      });
+
+    items
+      .append('text')
+      .attr('x', -8)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .text((row) => row.country)
+      .style('font-family', font)
+      .style('font-size', '12px')
+      .style('font-weight', (row) => (row.country === selectedCountry ? '700' : '400'))
+      .style('fill', '#4A5568');
+
+    items
+      .append('line')
+      .attr('x1', (row) => x(row.rankLow))
+      .attr('x2', (row) => x(row.rankHigh))
+      .attr('stroke', '#4299E1')
+      .attr('stroke-width', 4)
+      .attr('stroke-linecap', 'round')
+      .attr('opacity', 0.5);
+
+    items
+      .filter((row) => row.rank !== null)
+      .append('line')
+      .attr('x1', (row) => x(row.rank!))
+      .attr('x2', (row) => x(row.rank!))
+      .attr('y1', -6)
+      .attr('y2', 6)
+      .attr('stroke', '#E53E3E')
+      .attr('stroke-width', 2);
+
+    items
+      .append('circle')
+      .attr('cx', (row) => x(row.medianRank))
+      .attr('r', 4)
+      .attr('fill', '#2B6CB0');
+
+    items
+      .append('title')
+      .text(
+        (row) =>
+          `${row.country}\nMedian rank: ${formatRank(row.medianRank)}\n` +
+          `90% interval: ${formatRank(row.rankLow)}–${formatRank(row.rankHigh)}\n` +
+          `Top ${topNLimit}: ${(row.topNProbability * 100).toFixed(1)}%` +
+          (row.rank !== null ? `\nCurrent rank: ${row.rank}` : ''),
+      );
+  }, [rows, result?.settings.topN, selectedCountry, onCountrySelect]);
+
+  const methodInfo = SENSITIVITY_METHODS.find((info) => info.value === settings.method)!;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <div>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Sampling</span>
+          <div className="flex rounded-md bg-gray-100 p-1">
+            {SENSITIVITY_METHODS.map((info) => (
+              <button
+                key={info.value}
+                onClick={() => updateSettings({ method: info.value })}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  settings.method === info.value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {info.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Samples</span>
+          <select
+            value={settings.samples}
+            onChange={(e) => updateSettings({ samples: Number(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            {SAMPLE_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        {settings.method === 'dirichlet' ? (
+          <label>
+            <span className="block text-xs font-medium text-gray-500 mb-1">Concentration</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={settings.concentration}
+              onChange={(e) =>
+                updateSettings({ concentration: Math.max(1, Number(e.target.value)) })
+              }
+              className="w-20 px-2 py-1.5 border border-gray-300 rounded-md text-sm text-right"
+            />
+          </label>
+        ) : (
+          <label>
+            <span className="block text-xs font-medium text-gray-500 mb-1">Range (± points)</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={settings.range}
+              onChange={(e) => updateSettings({ range: Math.max(0, Number(e.target.value)) })}
+              className="w-20 px-2 py-1.5 border border-gray-300 rounded-md text-sm text-right"
+            />
+          </label>
+        )}
+        <label>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Top N</span>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={settings.topN}
+            onChange={(e) => updateSettings({ topN: Math.max(1, Number(e.target.value)) })}
+            className="w-20 px-2 py-1.5 border border-gray-300 rounded-md text-sm text-right"
+          />
+        </label>
+        {isRunning ? (
+          <button
+            onClick={cancel}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-gray-700 text-sm transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={run}
+            disabled={preparedData.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-md text-white text-sm transition-colors disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            Run
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">{methodInfo.description}</p>
+
+      {settings.method === 'range' && (
+        <div className="flex flex-wrap gap-3">
+          {sectors.map((sector) => (
+            <label key={sector.key} className="flex items-center gap-1 text-xs text-gray-600">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: sector.color }} />
+              {sector.name} ±
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={settings.sectorRanges[sector.key] ?? ''}
+                placeholder={String(settings.range)}
+                onChange={(e) => {
+                  const { [sector.key]: _removed, ...rest } = settings.sectorRanges;
+                  updateSettings({
+                    sectorRanges:
+                      e.target.value === ''
+                        ? rest
+                        : { ...rest, [sector.key]: Math.max(0, Number(e.target.value)) },
+                  });
+                }}
+                className="w-14 px-1 py-0.5 border border-gray-300 rounded text-xs text-right"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {isRunning && (
+        <div className="w-full h-2 bg-gray-200 rounded-full">
+          <div
+            className="h-2 rounded-full bg-blue-500 transition-all"
+            style={{ width: `${(completed / settings.samples) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {result && !isCurrent && !isRunning && (
+        <div className="p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-700">
+          The weights or edition changed since this analysis ran. Run it again to update the
+          results.
+        </div>
+      )}
+
+      {result ? (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.settings.samples.toLocaleString()} samples. Bars show the 5th–95th percentile
+            rank, dots the median rank and red ticks the rank under the current weights. The shaded
+            band is the top {result.settings.topN}.
+          </p>
+          <div className="overflow-y-auto max-h-[32rem]">
+            <svg ref={svgRef} width="100%" className="bg-white" />
+          </div>
+        </>
+      ) : (
+        !isRunning && (
+          <p className="text-sm text-gray-500">
+            Run the analysis to see how stable each country's rank is when the weights vary.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,256 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import type { CountryData, Sector, YearData } from '../types';
+import { describeRankChange } from '../utils/dataProcessing';
+import { formatImputedNote } from '../utils/imputation';
+
+interface Props {
+  years: YearData[];
+  sectors: Sector[];
+  selectedCountry: string | null;
+  onCountrySelect: (country: string | null) => void;
+}
+
+interface TrendPoint {
+  year: string;
+  previousYear: string | null;
+  value: number;
+  country: CountryData;
+}
+
+interface TrendSeries {
+  key: string;
+  label: string;
+  color: string;
+  points: TrendPoint[];
+}
+
+const TrendChart: React.FC<Props> = ({ years, sectors, selectedCountry, onCountrySelect }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !years.length || !containerRef.current) return;
+
+    const width = svgRef.current.clientWidth;
+    const height = 360;
+    const margin = { top: 20, right: 160, bottom: 40, left: 60 };
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const getPoints = (country: string, value: (d: CountryData) => number) =>
+      years.flatMap((year) => {
+        const countryData = year.data.find((d) => d.country === country);
+        return countryData
+          ? [
+              {
+                year: year.year,
+                previousYear: year.previousYear,
+                value: value(countryData),
+                country: countryData,
+              },
+            ]
+          : [];
+      });
+
+    // With a country selected show its total and sector scores, otherwise every country's total
+    let series: TrendSeries[];
+    if (selectedCountry) {
+      series = [
+        {
+          key: 'totalScore',
+          label: 'Total Score',
+          color: '#2D3748',
+          points: getPoints(selectedCountry, (d) => d.totalScore),
+        },
+        ...sectors.map((sector) => ({
+          key: sector.key,
+          label: sector.name,
+          color: sector.color,
+          points: getPoints(selectedCountry, (d) => d.sectorScores[sector.key] ?? 0),
+        })),
+      ];
+    } else {
+      const countries = Array.from(
+        new Set(years.flatMap((year) => year.data.map((d) => d.country))),
+      );
+      series = countries.map((country) => ({
+        key: country,
+        label: country,
+        color: '#A0AEC0',
+        points: getPoints(country, (d) => d.totalScore),
+      }));
+    }
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3
+      .scalePoint()
+      .domain(years.map((year) => year.year))
+      .range([0, innerWidth])
+      .padding(0.5);
+
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max(series, (s) => d3.max(s.points, (p) => p.value)) || 0])
+      .nice()
+      .range([innerHeight, 0]);
+
+    g.append('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x))
+      .selectAll('text')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '12px')
+      .style('font-weight', '500');
+
+    g.append('g')
+      .attr('class', 'y-axis')
+      .call(d3.axisLeft(y).ticks(6))
+      .selectAll('text')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '11px')
+      .style('font-weight', '500');
+
+    svg.selectAll('.domain, .tick line').style('stroke', '#cbd5e0').style('stroke-width', '1px');
+
+    const tooltip = d3
+      .select(tooltipRef.current)
+      .style('position', 'absolute')
+      .style('visibility', 'hidden')
+      .style('background-color', 'white')
+      .style('padding', '12px')
+      .style('border', '1px solid #ddd')
+      .style('border-radius', '6px')
+      .style('box-shadow', '0 4px 12px rgba(0, 0, 0, 0.15)')
+      .style('pointer-events', 'none')
+      .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+      .style('font-size', '14px')
+      .style('z-index', '1000')
+      .style('min-width', '200px');
+
+    const line = d3
+      .line<TrendPoint>()
+      .x((p) => x(p.year) || 0)
+      .y((p) => y(p.value));
+
+    const seriesGroups = g
+      .selectAll('g.series')
+      .data(series)
+      .enter()
+      .append('g')
+      .attr('class', 'series')
+      .style('cursor', 'pointer');
+
+    seriesGroups
+      .append('path')
+      .attr('fill', 'none')
+      .attr('stroke', (s) => s.color)
+      .attr('stroke-width', (s) => (s.key === 'totalScore' ? 3 : 1.5))
+      .attr('d', (s) => line(s.points));
+
+    seriesGroups
+      .selectAll('circle')
+      .data((s) => s.points.map((point) => ({ series: s, point })))
+      .enter()
+      .append('circle')
+      .attr('cx', (d) => x(d.point.year) || 0)
+      .attr('cy', (d) => y(d.point.value))
+      .attr('r', 4)
+      .attr('fill', (d) => d.series.color)
+      .attr('stroke', 'white')
+      .attr('stroke-width', 1.5)
+      .on('mouseover', (event, d) => {
+        const { point } = d;
+        const rankChange = describeRankChange(point.country, point.previousYear);
+
+        tooltip.style('visibility', 'visible').html(`
+            <div style="font-weight: 700; margin-bottom: 8px; color: #1A202C; font-size: 16px; border-bottom: 1px solid #E2E8F0; padding-bottom: 6px;">
+              ${point.country.country} · ${point.year}
+            </div>
+            <div style="margin-bottom: 4px;">
+              ${d.series.key === point.country.country ? 'Total Score' : d.series.label}: ${point.value.toFixed(3)}${formatImputedNote(point.country, d.series.key)}
+            </div>
+            <div style="color: #4A5568;">
+              Rank: #${point.country.rank} ${rankChange}
+            </div>
+          `);
+
+        if (!selectedCountry) {
+          d3.select(event.currentTarget.parentNode)
+            .raise()
+            .select('path')
+            .attr('stroke', '#3182CE')
+            .attr('stroke-width', 3);
+        }
+      })
+      .on('mousemove', (event) => {
+        const containerRect = containerRef.current!.getBoundingClientRect();
+        const tooltipNode = tooltipRef.current!;
+
+        let left = event.clientX - containerRect.left + 16;
+        let top = event.clientY - containerRect.top;
+
+        if (left + tooltipNode.offsetWidth > containerRect.width) {
+          left = event.clientX - containerRect.left - tooltipNode.offsetWidth - 16;
+        }
+        if (top + tooltipNode.offsetHeight > containerRect.height) {
+          top = containerRect.height - tooltipNode.offsetHeight - 8;
+        }
+        if (top < 0) {
+          top = 8;
+        }
+
+        tooltip.style('left', `${left}px`).style('top', `${top}px`);
+      })
+      .on('mouseout', (event, d) => {
+        tooltip.style('visibility', 'hidden');
+
+        if (!selectedCountry) {
+          d3.select(event.currentTarget.parentNode)
+            .select('path')
+            .attr('stroke', d.series.color)
+            .attr('stroke-width', 1.5);
+        }
+      })
+      .on('click', (_event, d) => {
+        onCountrySelect(
+          d.point.country.country === selectedCountry ? null : d.point.country.country,
+        );
+      });
+
+    // Label each line at its latest point when there are few enough lines to read them
+    if (selectedCountry) {
+      seriesGroups
+        .filter((s) => s.points.length > 0)
+        .append('text')
+        .attr('x', (s) => (x(s.points[s.points.length - 1].year) || 0) + 8)
+        .attr('y', (s) => y(s.points[s.points.length - 1].value))
+        .attr('dy', '0.35em')
+        .text((s) => s.label)
+        .style('font-family', "'Inter', 'Helvetica', 'Arial', sans-serif")
+        .style('font-size', '12px')
+        .style('font-weight', (s) => (s.key === 'totalScore' ? '700' : '500'))
+        .style('fill', (s) => s.color);
+    }
+  }, [years, sectors, selectedCountry, onCountrySelect]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <p className="text-sm text-gray-500 mb-2">
+        {selectedCountry
+          ? `Total and weighted sector scores for ${selectedCountry} in each edition.`
+          : 'Total score of every country in each edition. Select a country to see its sector scores.'}
+      </p>
+      <svg ref={svgRef} width="100%" height="360" className="bg-white" />
+      <div ref={tooltipRef} className="absolute" />
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import type { ValidationIssue, ValidationReport as ValidationReportType } from '../types';
+
+interface Props {
+  report: ValidationReportType;
+  // Whether rows with errors are already being skipped, in which case the report is informational
+  isSkippingInvalidRows: boolean;
+  onLoadAnyway: () => void;
+  onDismiss: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return String(value);
+}
+
+function formatLocation(issue: ValidationIssue): string {
+  const parts = [issue.sheet, issue.cell ?? (issue.row ? `row ${issue.row}` : null)];
+  return parts.filter(Boolean).join(' · ') || '—';
+}
+
+const ValidationReport: React.FC<Props> = ({
+  report,
+  isSkippingInvalidRows,
+  onLoadAnyway,
+  onDismiss,
+}) => {
+  const errorCount = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+  // Any edition can hold the errors, so the one on screen loading says nothing about the others
+  const isBlocked = report.hasErrors && !isSkippingInvalidRows;
+
+  return (
+    <div
+      className={`border rounded-lg ${
+        isBlocked ? 'border-red-300 bg-red-50' : 'border-amber-300 bg-amber-50'
+      }`}
+    >
+      <div className="flex items-start justify-between px-4 py-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Validation report</h2>
+          <p className="text-sm text-gray-600">
+            {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount}{' '}
+            {warningCount === 1 ? 'warning' : 'warnings'}.{' '}
+            {isBlocked
+              ? report.canSkipInvalidRows
+                ? 'Fix the file and upload it again, or load it without the rows that have errors.'
+                : 'The file cannot be loaded until these errors are fixed.'
+              : 'Warnings do not prevent the data from loading.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isBlocked && report.canSkipInvalidRows && (
+            <button
+              onClick={onLoadAnyway}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm transition-colors"
+            >
+              Load anyway, skipping bad rows
+            </button>
+          )}
+          {!isBlocked && (
+            <button
+              onClick={onDismiss}
+              className="p-2 rounded-lg hover:bg-amber-100 transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-5 h-5 text-gray-600" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto border-t border-gray-200 bg-white rounded-b-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Severity
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Location
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Column
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Problem
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Value
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {report.issues.map((issue, index) => (
+              <tr key={index}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  {issue.severity === 'error' ? (
+                    <span className="inline-flex items-center gap-1 text-red-700">
+                      <AlertCircle className="w-4 h-4" />
+                      Error
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center gap-1 text-amber-700">
+                      <AlertTriangle className="w-4 h-4" />
+                      Warning
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-700">
+                  {formatLocation(issue)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                  {issue.column ?? '—'}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900">{issue.message}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-500">
+                  {formatValue(issue.value)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReport;
@@ -0,0 +1,370 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Search, Square } from 'lucide-react';
+import type {
+  AggregationMethod,
+  CountryData,
+  Sector,
+  SectorBounds,
+  SectorWeights,
+  SolverGoal,
+  SolverResult,
+} from '../types';
+import { areWeightsEqual } from '../utils/scenarios';
+import { type SolverMessage, type SolverRequest, isSolverExact } from '../utils/weightSolver';
+
+interface Props {
+  // Current ranking, to list the countries and their ranks
+  data: CountryData[];
+  // The same edition before weighting, which candidate weights are scored from
+  preparedData: CountryData[];
+  sectors: Sector[];
+  weights: SectorWeights;
+  selectedCountry: string | null;
+  aggregation: AggregationMethod;
+  onApply: (weights: SectorWeights) => void;
+}
+
+interface Solution {
+  country: string;
+  goal: SolverGoal;
+  // Weights the solver started from
+  from: SectorWeights;
+  result: SolverResult;
+}
+
+function describeGoal(goal: SolverGoal): string {
+  return goal.type === 'rank' ? `reach rank ${goal.rank}` : `overtake ${goal.rival}`;
+}
+
+const WeightSolver: React.FC<Props> = ({
+  data,
+  preparedData,
+  sectors,
+  weights,
+  selectedCountry,
+  aggregation,
+  onApply,
+}) => {
+  const countries = [...data].sort((a, b) => a.rank - b.rank);
+  const [country, setCountry] = useState<string>(selectedCountry ?? '');
+  const [goalType, setGoalType] = useState<SolverGoal['type']>('rank');
+  const [targetRank, setTargetRank] = useState(5);
+  const [rival, setRival] = useState('');
+  // Whole percentages, as in the sliders; sectors without an entry can take any weight
+  const [bounds, setBounds] = useState<Record<string, { min: number; max: number }>>({});
+  const [solution, setSolution] = useState<Solution | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Share of the search done, null when no search is running
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const isSolving = progress !== null;
+
+  // Follow the country picked elsewhere in the dashboard
+  useEffect(() => {
+    if (selectedCountry) setCountry(selectedCountry);
+  }, [selectedCountry]);
+
+  // A running search is of no use once the panel is gone
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // A suggestion for another edition or processing setup would be misleading, and so would a
+  // search still running on the old one
+  useEffect(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+    setSolution(null);
+  }, [preparedData, aggregation]);
+
+  const rivalOptions = countries.filter((d) => d.country !== country);
+  const activeRival = rivalOptions.some((d) => d.country === rival)
+    ? rival
+    : (rivalOptions[0]?.country ?? '');
+
+  const updateBound = (sectorKey: string, field: 'min' | 'max', value: string) => {
+    setBounds((prev) => {
+      const current = prev[sectorKey] ?? { min: 0, max: 100 };
+      const next = {
+        ...current,
+        [field]: value === '' ? (field === 'min' ? 0 : 100) : Math.min(100, Math.max(0, +value)),
+      };
+      const { [sectorKey]: _removed, ...rest } = prev;
+      return next.min === 0 && next.max === 100 ? rest : { ...rest, [sectorKey]: next };
+    });
+  };
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // The search can take seconds on larger editions, so it runs in a worker like the sensitivity
+  // analysis
+  const handleSolve = () => {
+    if (!country) return;
+    const goal: SolverGoal =
+      goalType === 'rank'
+        ? { type: 'rank', rank: Math.max(1, targetRank) }
+        : { type: 'beat', rival: activeRival };
+    const fractionBounds = Object.fromEntries(
+      Object.entries(bounds).map(([key, bound]): [string, SectorBounds] => [
+        key,
+        { min: bound.min / 100, max: bound.max / 100 },
+      ]),
+    );
+
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../workers/weightSolver.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+    setProgress(0);
+
+    const from = weights;
+    worker.onmessage = (event: MessageEvent<SolverMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.progress);
+        return;
+      }
+      setSolution({ country, goal, from, result: message.result });
+      cancel();
+    };
+    worker.onerror = (event) => {
+      console.error('Weight search failed:', event.message);
+      cancel();
+    };
+
+    const request: SolverRequest = {
+      data: preparedData,
+      weights,
+      country,
+      goal,
+      bounds: fractionBounds,
+      aggregation,
+    };
+    worker.postMessage(request);
+  };
+
+  const currentRank = data.find((d) => d.country === solution?.country)?.rank;
+  const isApplied = !!solution?.result.weights && areWeightsEqual(solution.result.weights, weights);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Country</span>
+          <select
+            value={country}
+            onChange={(e) => setCountry(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            <option value="" disabled>
+              Select a country
+            </option>
+            {countries.map((d) => (
+              <option key={d.country} value={d.country}>
+                {d.rank}. {d.country}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Goal</span>
+          <div className="flex rounded-md bg-gray-100 p-1">
+            {(['rank', 'beat'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setGoalType(option)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  goalType === option
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option === 'rank' ? 'Reach rank' : 'Overtake'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {goalType === 'rank' ? (
+          <label>
+            <span className="block text-xs font-medium text-gray-500 mb-1">Rank</span>
+            <input
+              type="number"
+              min="1"
+              max={countries.length}
+              step="1"
+              value={targetRank}
+              onChange={(e) => setTargetRank(Math.max(1, Number(e.target.value)))}
+              className="w-20 px-2 py-1.5 border border-gray-300 rounded-md text-sm text-right"
+            />
+          </label>
+        ) : (
+          <label>
+            <span className="block text-xs font-medium text-gray-500 mb-1">Rival</span>
+            <select
+              value={activeRival}
+              onChange={(e) => setRival(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              {rivalOptions.map((d) => (
+                <option key={d.country} value={d.country}>
+                  {d.rank}. {d.country}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {isSolving ? (
+          <button
+            onClick={cancel}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-gray-700 text-sm transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleSolve}
+            disabled={!country || preparedData.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-md text-white text-sm transition-colors disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            Find weights
+          </button>
+        )}
+      </div>
+
+      {isSolving && (
+        <div className="w-full h-2 bg-gray-200 rounded-full">
+          <div
+            className="h-2 rounded-full bg-blue-500 transition-all"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600">
+          Sector bounds
+          {Object.keys(bounds).length > 0 && ` (${Object.keys(bounds).length} set)`}
+        </summary>
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          {sectors.map((sector) => (
+            <div key={sector.key} className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: sector.color }} />
+              <span className="flex-grow truncate">{sector.name}</span>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={bounds[sector.key]?.min ?? ''}
+                placeholder="0"
+                onChange={(e) => updateBound(sector.key, 'min', e.target.value)}
+                className="w-14 px-1 py-0.5 border border-gray-300 rounded text-xs text-right"
+              />
+              –
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={bounds[sector.key]?.max ?? ''}
+                placeholder="100"
+                onChange={(e) => updateBound(sector.key, 'max', e.target.value)}
+                className="w-14 px-1 py-0.5 border border-gray-300 rounded text-xs text-right"
+              />
+              %
+            </div>
+          ))}
+        </div>
+      </details>
+
+      {solution && solution.result.status === 'infeasible' && (
+        <div className="p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+          No weights within the sector bounds let {solution.country} {describeGoal(solution.goal)}.
+          {!isSolverExact(aggregation) &&
+            ' The search is approximate for this aggregation method, so some weights may still work.'}
+        </div>
+      )}
+
+      {solution && solution.result.status === 'met' && (
+        <div className="p-3 rounded-md bg-green-50 border border-green-200 text-sm text-green-700">
+          {solution.country} already meets the goal with the current weights (rank{' '}
+          {solution.result.rank}).
+        </div>
+      )}
+
+      {solution && solution.result.status === 'solved' && solution.result.weights && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Closest weights for {solution.country} to {describeGoal(solution.goal)}: rank{' '}
+            {currentRank ?? '–'} → <span className="font-semibold">{solution.result.rank}</span>
+          </p>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sector
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Current
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Suggested
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Change
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sectors.map((sector) => {
+                const before = Math.round((solution.from[sector.key] ?? 0) * 100);
+                const after = Math.round((solution.result.weights![sector.key] ?? 0) * 100);
+                const change = after - before;
+                return (
+                  <tr key={sector.key}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {sector.name}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                      {before}%
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                      {after}%
+                    </td>
+                    <td
+                      className={`px-3 py-2 whitespace-nowrap text-sm text-right ${
+                        change > 0
+                          ? 'text-green-600'
+                          : change < 0
+                            ? 'text-red-600'
+                            : 'text-gray-400'
+                      }`}
+                    >
+                      {change > 0 ? `+${change}` : change === 0 ? '–' : change}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button
+            onClick={() => onApply(solution.result.weights!)}
+            disabled={isApplied}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-md text-white text-sm transition-colors disabled:bg-green-500 disabled:opacity-100"
+          >
+            {isApplied && <Check className="w-4 h-4" />}
+            {isApplied ? 'Applied to sliders' : 'Apply to sliders'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeightSolver;
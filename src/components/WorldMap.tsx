@@ -1,14 +1,81 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import { feature } from 'topojson-client';
 import Select from 'react-select';
-import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
-import type { CountryData, InteractiveProps } from '../types';
-import { calculateColorIntensity } from '../utils/dataProcessing';
+import { Loader2, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import type {
+  AggregationMethod,
+  ColorScheme,
+  CountryData,
+  CountryGroup,
+  InteractiveProps,
+  MapView,
+  Sector,
+} from '../types';
+import { DEFAULT_AGGREGATION, getTotalScoreLabel } from '../utils/aggregation';
+import { describeRankChange } from '../utils/dataProcessing';
+import {
+  BIVARIATE_CLASS_LABELS,
+  BIVARIATE_COLORS,
+  DEFAULT_COLOR_SCHEME,
+  createBivariateScale,
+  createColorScale,
+} from '../utils/colorScale';
+import BivariateLegend from './BivariateLegend';
+import ColorLegend from './ColorLegend';
+import { formatImputedNote } from '../utils/imputation';
+import { getSectorName } from '../utils/sectors';
+import { isSameView } from '../utils/urlState';
+import {
+  type GlobeRotation,
+  type MapProjection,
+  DEFAULT_GLOBE_ROTATION,
+  DEFAULT_MAP_PROJECTION,
+  MAP_PROJECTIONS,
+  createProjection,
+  getGlobeRotation,
+} from '../utils/mapProjections';
+import {
+  type CountryFeature,
+  type MapRenderer,
+  type MapResolutionSetting,
+  type WorldGeometry,
+  MAP_RENDERER_OPTIONS,
+  MAP_RESOLUTION_OPTIONS,
+  createCountryLocator,
+  loadWorldGeometry,
+  resolveMapResolution,
+} from '../utils/worldGeometry';
 
 interface Props extends Partial<InteractiveProps> {
   data: CountryData[];
+  sectors: Sector[];
+  previousYear?: string | null;
   selectedSector: string | null;
+  aggregation?: AggregationMethod;
+  colorScheme?: ColorScheme;
+  // Groups whose combined outline is drawn over the countries
+  outlinedGroups?: CountryGroup[];
+  // Receives the matched countries that have no shape in the map geometry
+  onUnmappedCountries?: (countries: CountryData[]) => void;
+  // Zoom and pan of the map, null for the full world view
+  view?: MapView | null;
+  onViewChange?: (view: MapView | null) => void;
+}
+
+function toZoomTransform(view: MapView | null): d3.ZoomTransform {
+  return view ? d3.zoomIdentity.translate(view.x, view.y).scale(view.k) : d3.zoomIdentity;
+}
+
+function toMapView(transform: d3.ZoomTransform): MapView | null {
+  return transform.k === 1 && transform.x === 0 && transform.y === 0
+    ? null
+    : { k: transform.k, x: transform.x, y: transform.y };
+}
+
+// The globe turns the short way round when it rotates to a country
+function nearestRotation(from: GlobeRotation, to: GlobeRotation): GlobeRotation {
+  const turn = ((((to[0] - from[0]) % 360) + 540) % 360) - 180;
+  return [from[0] + turn, to[1], to[2]];
 }
 
 interface CountryOption {
@@ -16,12 +83,121 @@ interface CountryOption {
   label: string;
 }
 
-const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCountrySelect }) => {
+const WorldMap: React.FC<Props> = ({
+  data,
+  sectors,
+  previousYear = null,
+  selectedSector,
+  selectedCountry,
+  onCountrySelect,
+  aggregation = DEFAULT_AGGREGATION,
+  colorScheme = DEFAULT_COLOR_SCHEME,
+  outlinedGroups = [],
+  onUnmappedCountries,
+  view = null,
+  onViewChange,
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The scene is rebuilt when the geometry or projection changes; these keep the zoom across it
+  const viewRef = useRef(view);
+  const onViewChangeRef = useRef(onViewChange);
+  viewRef.current = view;
+  onViewChangeRef.current = onViewChange;
   const tooltipRef = useRef<HTMLDivElement>(null);
-  const zoomRef = useRef<d3.ZoomBehavior<Element, unknown>>();
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown>>();
   const geoPathRef = useRef<d3.GeoPath>();
-  const featuresRef = useRef<any[]>([]);
+  const featuresRef = useRef<CountryFeature[]>([]);
+  const projectionRef = useRef<d3.GeoProjection>();
+  // Set by the current renderer: recolor after a data or selection change, redraw the group
+  // outlines after a group change, and reproject after the globe turned or zoomed
+  const restyleRef = useRef<() => void>();
+  const drawOutlinesRef = useRef<() => void>();
+  const redrawRef = useRef<() => void>();
+  const [renderer, setRenderer] = useState<MapRenderer>('svg');
+  const [projectionType, setProjectionType] = useState<MapProjection>(DEFAULT_MAP_PROJECTION);
+  const isGlobe = projectionType === 'globe';
+  // The globe zooms and rotates its projection instead of transforming the drawn map, so its
+  // state is kept here rather than in the shared map view
+  const globeRotationRef = useRef<GlobeRotation>(DEFAULT_GLOBE_ROTATION);
+  const globeZoomRef = useRef(1);
+  const [globeZoom, setGlobeZoom] = useState(1);
+  const [resolutionSetting, setResolutionSetting] = useState<MapResolutionSetting>('auto');
+  const resolution = resolveMapResolution(resolutionSetting, isGlobe ? globeZoom : (view?.k ?? 1));
+  const [geometry, setGeometry] = useState<WorldGeometry | null>(null);
+  const features = geometry?.features ?? null;
+  const [geometryStatus, setGeometryStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [retryCount, setRetryCount] = useState(0);
+
+  // The previous geometry stays on screen while another resolution loads
+  useEffect(() => {
+    let isCancelled = false;
+    setGeometryStatus('loading');
+    loadWorldGeometry(resolution).then(
+      (loaded) => {
+        if (isCancelled) return;
+        setGeometry(loaded);
+        setGeometryStatus('ready');
+      },
+      (error) => {
+        console.error('Map geometry loading error:', error);
+        if (!isCancelled) setGeometryStatus('error');
+      },
+    );
+    return () => {
+      isCancelled = true;
+    };
+  }, [resolution, retryCount]);
+
+  const groupOutlines = useMemo(
+    () =>
+      geometry
+        ? outlinedGroups.map((group) => ({
+            group,
+            outline: geometry.mergeCountries(group.members),
+          }))
+        : [],
+    [geometry, outlinedGroups],
+  );
+  const groupOutlinesRef = useRef(groupOutlines);
+  groupOutlinesRef.current = groupOutlines;
+
+  // Bivariate mode colors each country by its tertiles in two sectors
+  const [colorMode, setColorMode] = useState<'score' | 'bivariate'>('score');
+  const [bivariateKeys, setBivariateKeys] = useState<[string, string] | null>(null);
+  const isBivariate = colorMode === 'bivariate' && sectors.length >= 2;
+  const [xSector, ySector] =
+    bivariateKeys && bivariateKeys.every((key) => sectors.some((sector) => sector.key === key))
+      ? bivariateKeys
+      : [sectors[0]?.key ?? '', sectors[1]?.key ?? ''];
+
+  // Classes come from the values before weighting, so a sector's weight does not change them
+  const bivariateScale = useMemo(
+    () =>
+      createBivariateScale(
+        data.map((d) => d.normalizedValues[xSector] ?? NaN),
+        data.map((d) => d.normalizedValues[ySector] ?? NaN),
+      ),
+    [data, xSector, ySector],
+  );
+
+  const getBivariateClass = (country: CountryData | undefined): [number, number] | null => {
+    const x = country?.normalizedValues[xSector];
+    const y = country?.normalizedValues[ySector];
+    return x === undefined || y === undefined ? null : bivariateScale.classify(x, y);
+  };
+
+  const describeBivariateClass = ([column, row]: [number, number]) =>
+    `${BIVARIATE_CLASS_LABELS[column]} ${getSectorName(sectors, xSector)}, ${BIVARIATE_CLASS_LABELS[row].toLowerCase()} ${getSectorName(sectors, ySector)}`;
+
+  const colorScale = useMemo(
+    () =>
+      createColorScale(
+        data.map((d) => (selectedSector ? (d.sectorScores[selectedSector] ?? 0) : d.totalScore)),
+        colorScheme,
+      ),
+    [data, selectedSector, colorScheme],
+  );
 
   const countryOptions = useMemo(() => {
     return data
@@ -41,6 +217,88 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       : null;
   }, [selectedCountry]);
 
+  const countryDataMap = useMemo(
+    () => new Map(data.filter((d) => d.countryCode).map((d) => [d.countryCode!, d])),
+    [data],
+  );
+
+  const getCountryData = (feature: CountryFeature) =>
+    countryDataMap.get(feature.properties.countryCode ?? '');
+
+  // Selection uses the dataset's country name, falling back to the map label
+  const getFeatureName = (feature: CountryFeature): string =>
+    getCountryData(feature)?.country ?? feature.properties.name;
+
+  const isSelected = (feature: CountryFeature) => selectedCountry === getFeatureName(feature);
+
+  const getFill = (feature: CountryFeature) => {
+    const countryData = getCountryData(feature);
+    if (!countryData) return '#e2e8f0';
+    if (isBivariate) {
+      const values = getBivariateClass(countryData);
+      return values ? BIVARIATE_COLORS[values[1]][values[0]] : '#e2e8f0';
+    }
+    const score = selectedSector
+      ? countryData.sectorScores[selectedSector]
+      : countryData.totalScore;
+    return colorScale.color(score);
+  };
+
+  const getTooltipHtml = (countryData: CountryData) => `
+    <div class="font-semibold">${countryData.country}</div>
+    <div>${getTotalScoreLabel(aggregation)}: ${countryData.totalScore.toFixed(3)}</div>
+    <div>Rank: #${countryData.rank} ${describeRankChange(countryData, previousYear)}</div>
+    ${
+      isBivariate
+        ? [xSector, ySector]
+            .map(
+              (key) =>
+                `<div>${getSectorName(sectors, key)} (normalized): ${countryData.normalizedValues[key]?.toFixed(3) ?? '—'}${formatImputedNote(countryData, key)}</div>`,
+            )
+            .join('') +
+          `<div>Class: ${
+            getBivariateClass(countryData)
+              ? describeBivariateClass(getBivariateClass(countryData)!)
+              : 'not classified'
+          }</div>`
+        : selectedSector
+          ? `<div>${getSectorName(sectors, selectedSector)}: ${countryData.sectorScores[selectedSector].toFixed(3)}${formatImputedNote(countryData, selectedSector)}</div>`
+          : sectors
+              .map(
+                (sector) =>
+                  `<div>${sector.name}: ${countryData.sectorScores[sector.key].toFixed(3)}${formatImputedNote(countryData, sector.key)}</div>`,
+              )
+              .join('')
+    }
+  `;
+
+  // The scene's handlers outlive the render that attached them, so they read the current data
+  // and selection through this ref
+  const paintRef = useRef({ getCountryData, getFeatureName, isSelected, getFill, getTooltipHtml });
+  paintRef.current = { getCountryData, getFeatureName, isSelected, getFill, getTooltipHtml };
+  const onCountrySelectRef = useRef(onCountrySelect);
+  onCountrySelectRef.current = onCountrySelect;
+  const selectedCountryRef = useRef(selectedCountry);
+  selectedCountryRef.current = selectedCountry;
+
+  const rotateGlobe = (target: GlobeRotation) => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const projection = projectionRef.current;
+    const rotate = d3.interpolate(
+      projection.rotate(),
+      nearestRotation(projection.rotate() as GlobeRotation, target),
+    );
+
+    d3.select(svgRef.current)
+      .transition('rotate')
+      .duration(750)
+      .tween('rotate', () => (t) => {
+        globeRotationRef.current = rotate(t) as GlobeRotation;
+        projection.rotate(globeRotationRef.current);
+        redrawRef.current?.();
+      });
+  };
+
   const handleZoom = (action: 'in' | 'out' | 'reset') => {
     if (!svgRef.current || !zoomRef.current) return;
 
@@ -48,12 +306,13 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
     const zoom = zoomRef.current;
 
     if (action === 'reset') {
-      svg.transition().duration(750).call(zoom.transform, d3.zoomIdentity);
+      if (isGlobe) rotateGlobe(DEFAULT_GLOBE_ROTATION);
+      zoom.transform(svg.transition().duration(750), d3.zoomIdentity);
     } else {
       const scale = action === 'in' ? 1.5 : 0.667;
       const currentTransform = d3.zoomTransform(svg.node()!);
 
-      svg.transition().duration(750).call(zoom.transform, currentTransform.scale(scale));
+      zoom.transform(svg.transition().duration(750), currentTransform.scale(scale));
     }
   };
 
@@ -66,10 +325,27 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
     const width = svgRef.current.clientWidth;
     const height = 400;
 
-    // Find the selected country's feature
-    const feature = featuresRef.current.find((f) => f.properties.name === countryName);
+    // Find the selected country's feature, by ISO code when the country was matched
+    const countryCode = data.find((d) => d.country === countryName)?.countryCode;
+    const feature = featuresRef.current.find(
+      (f) =>
+        (countryCode && f.properties.countryCode === countryCode) ||
+        f.properties.name === countryName,
+    );
+
+    if (feature && isGlobe) {
+      // Turn the country to the front, then zoom until it fills the view as on the flat maps
+      const target = getGlobeRotation(feature);
+      const bounds = d3
+        .geoPath(createProjection('globe', width, height).rotate(target))
+        .bounds(feature);
+      const dx = bounds[1][0] - bounds[0][0];
+      const dy = bounds[1][1] - bounds[0][1];
+      const scale = Math.max(1, Math.min(8, 0.9 / Math.max(dx / width, dy / height)));
 
-    if (feature) {
+      rotateGlobe(target);
+      zoom.transform(svg.transition().duration(750), d3.zoomIdentity.scale(scale));
+    } else if (feature) {
       // Get the bounds of the country
       const bounds = path.bounds(feature);
       const dx = bounds[1][0] - bounds[0][0];
@@ -82,37 +358,41 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       const translate = [width / 2 - scale * x, height / 2 - scale * y];
 
       // Apply the transformation
-      svg
-        .transition()
-        .duration(750)
-        .call(zoom.transform, d3.zoomIdentity.translate(translate[0], translate[1]).scale(scale));
+      zoom.transform(
+        svg.transition().duration(750),
+        d3.zoomIdentity.translate(translate[0], translate[1]).scale(scale),
+      );
     } else {
       // If country not found, reset the view
-      svg.transition().duration(750).call(zoom.transform, d3.zoomIdentity);
+      zoom.transform(svg.transition().duration(750), d3.zoomIdentity);
     }
   };
 
+  // Builds the scene: projection, shapes, zoom and pointer handlers. It only runs for new
+  // geometry, projection or renderer; data and selection changes go through restyleRef.
   useEffect(() => {
-    if (!svgRef.current || !data.length) return;
+    if (!svgRef.current || !features) return;
 
     const width = svgRef.current.clientWidth;
     const height = 400;
     const svg = d3.select(svgRef.current);
 
-    // Clear previous content
+    // Clear the previous scene and its handlers
     svg.selectAll('*').remove();
+    svg.on('.hit', null).on('.drag', null);
+    svg.style('cursor', isGlobe ? 'grab' : '');
 
     // Create projection
-    const projection = d3
-      .geoMercator()
-      .scale((width - 3) / (2 * Math.PI))
-      .translate([width / 2, height / 2]);
+    const projection = createProjection(projectionType, width, height);
+    const baseScale = projection.scale();
+    if (isGlobe) {
+      projection.rotate(globeRotationRef.current).scale(baseScale * globeZoomRef.current);
+    }
+    projectionRef.current = projection;
 
     const path = d3.geoPath().projection(projection);
     geoPathRef.current = path;
-
-    // Create main group for map content
-    const g = svg.append('g');
+    featuresRef.current = features;
 
     // Create tooltip
     const tooltip = d3
@@ -128,131 +408,343 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
       .style('pointer-events', 'none')
       .style('z-index', '1000');
 
-    // Load world map data
-    fetch('https://unpkg.com/world-atlas@2.0.2/countries-110m.json')
-      .then((response) => response.json())
-      .then((worldData) => {
-        const countries = feature(worldData, worldData.objects.countries);
-        featuresRef.current = countries.features;
-
-        // Calculate max score for color scaling
-        const maxScore =
-          d3.max(data, (d) => (selectedSector ? d.sectorScores[selectedSector] : d.totalScore)) ||
-          0;
-
-        // Create a map of country names to their data for faster lookup
-        const countryDataMap = new Map(data.map((d) => [d.country, d]));
+    const showTooltip = (countryData: CountryData) => {
+      tooltip.style('visibility', 'visible').html(paintRef.current.getTooltipHtml(countryData));
+    };
+
+    const moveTooltip = (event: MouseEvent) => {
+      const [mouseX, mouseY] = d3.pointer(event, document.body);
+      const tooltipNode = tooltip.node() as HTMLDivElement;
+      const tooltipWidth = tooltipNode.offsetWidth;
+      const tooltipHeight = tooltipNode.offsetHeight;
+
+      let left = mouseX + 16;
+      let top = mouseY - tooltipHeight / 2;
+
+      if (left + tooltipWidth > window.innerWidth) {
+        left = mouseX - tooltipWidth - 16;
+      }
+
+      if (top < 0) {
+        top = 0;
+      } else if (top + tooltipHeight > window.innerHeight) {
+        top = window.innerHeight - tooltipHeight;
+      }
+
+      tooltip.style('left', `${left}px`).style('top', `${top}px`);
+    };
+
+    const toggleCountry = (feature: CountryFeature) => {
+      const featureName = paintRef.current.getFeatureName(feature);
+      // The selection effect zooms to the new country
+      onCountrySelectRef.current?.(selectedCountryRef.current === featureName ? null : featureName);
+    };
+
+    // Applies a flat map's zoom and pan
+    let applyTransform: (transform: d3.ZoomTransform) => void;
+
+    if (renderer === 'svg') {
+      // Create main group for map content
+      const g = svg.append('g');
+
+      // Outline of the world; Mercator has none since it stretches to infinity at the poles
+      if (projectionType !== 'mercator') {
+        g.append('path')
+          .datum<d3.GeoPermissibleObjects>({ type: 'Sphere' })
+          .attr('class', 'sphere')
+          .attr('d', path)
+          .attr('fill', isGlobe ? '#eff6ff' : '#ffffff')
+          .attr('stroke', '#cbd5e0')
+          .attr('stroke-width', 0.5);
+      }
+      if (isGlobe) {
+        g.append('path')
+          .datum(d3.geoGraticule10())
+          .attr('class', 'graticule')
+          .attr('d', path)
+          .attr('fill', 'none')
+          .attr('stroke', '#dbeafe')
+          .attr('stroke-width', 0.5);
+      }
+
+      // Draw map
+      const countries = g
+        .selectAll<SVGPathElement, CountryFeature>('path.country')
+        .data(features)
+        .enter()
+        .append('path')
+        .attr('class', 'country')
+        .attr('d', path)
+        .attr('stroke', '#cbd5e0')
+        .style('cursor', 'pointer')
+        .on('click', (_, d) => toggleCountry(d))
+        .on('mouseover', (event, d) => {
+          const countryData = paintRef.current.getCountryData(d);
+          if (countryData) {
+            showTooltip(countryData);
 
-        // Draw map
-        g.selectAll('path')
-          .data(countries.features)
+            d3.select(event.currentTarget)
+              .transition()
+              .duration(200)
+              .attr('stroke-width', '2')
+              .attr('stroke', '#4A5568');
+          }
+        })
+        .on('mousemove', moveTooltip)
+        .on('mouseout', (event, d) => {
+          tooltip.style('visibility', 'hidden');
+
+          d3.select(event.currentTarget)
+            .transition()
+            .duration(200)
+            .attr('stroke-width', paintRef.current.isSelected(d) ? 2 : 0.5)
+            .attr('stroke', '#cbd5e0');
+        });
+
+      // Bloc outlines sit on top in their own layer and let clicks and hovers through to the
+      // countries
+      const outlineLayer = g.append('g').attr('class', 'group-outlines');
+      drawOutlinesRef.current = () => {
+        outlineLayer.selectAll('*').remove();
+        outlineLayer
+          .selectAll('path.group-outline')
+          .data(groupOutlinesRef.current)
           .enter()
           .append('path')
-          .attr('d', path as any)
-          .attr('fill', (d: any) => {
-            const countryData = countryDataMap.get(d.properties.name);
-            if (!countryData) return '#e2e8f0';
-            const score = selectedSector
-              ? countryData.sectorScores[selectedSector]
-              : countryData.totalScore;
-            return calculateColorIntensity(score, maxScore);
-          })
-          .attr('stroke', '#cbd5e0')
-          .attr('stroke-width', (d: any) => {
-            const isSelected = selectedCountry === d.properties.name;
-            return isSelected ? 2 : 0.5;
-          })
-          .style('opacity', (d: any) => {
-            if (!selectedCountry) return 1;
-            return selectedCountry === d.properties.name ? 1 : 0.5;
-          })
-          .style('cursor', 'pointer')
-          .on('click', (event, d: any) => {
-            if (onCountrySelect) {
-              const newCountry = selectedCountry === d.properties.name ? null : d.properties.name;
-              onCountrySelect(newCountry);
-              zoomToCountry(newCountry);
-            }
-          })
-          .on('mouseover', (event, d: any) => {
-            const countryData = countryDataMap.get(d.properties.name);
-            if (countryData) {
-              tooltip.style('visibility', 'visible').html(`
-                  <div class="font-semibold">${countryData.country}</div>
-                  <div>Total Score: ${countryData.totalScore.toFixed(3)}</div>
-                  ${
-                    selectedSector
-                      ? `<div>${selectedSector}: ${countryData.sectorScores[selectedSector].toFixed(3)}</div>`
-                      : Object.entries(countryData.sectorScores)
-                          .map(([sector, score]) => `<div>${sector}: ${score.toFixed(3)}</div>`)
-                          .join('')
-                  }
-                `);
-
-              d3.select(event.currentTarget)
-                .transition()
-                .duration(200)
-                .attr('stroke-width', '2')
-                .attr('stroke', '#4A5568');
-            }
-          })
-          .on('mousemove', (event) => {
-            const [mouseX, mouseY] = d3.pointer(event, document.body);
-            const tooltipNode = tooltip.node() as HTMLDivElement;
-            const tooltipWidth = tooltipNode.offsetWidth;
-            const tooltipHeight = tooltipNode.offsetHeight;
+          .attr('class', 'group-outline')
+          .attr('stroke', (d) => d.group.color)
+          .datum((d) => d.outline)
+          .attr('d', path)
+          .attr('fill', 'none')
+          .attr('stroke-width', 1.5)
+          .attr('stroke-linejoin', 'round')
+          .style('pointer-events', 'none');
+      };
+      drawOutlinesRef.current();
+
+      restyleRef.current = () => {
+        const { getFill, isSelected } = paintRef.current;
+        const hasSelection = Boolean(selectedCountryRef.current);
+        countries
+          .attr('fill', getFill)
+          .attr('stroke-width', (d) => (isSelected(d) ? 2 : 0.5))
+          .style('opacity', (d) => (!hasSelection || isSelected(d) ? 1 : 0.5));
+      };
+      redrawRef.current = () =>
+        g.selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path').attr('d', path);
+      applyTransform = (transform) => g.attr('transform', transform.toString());
+    } else {
+      // The canvas sits under the svg, which stays in place to receive zoom and pointer events
+      const canvas = canvasRef.current!;
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = width * pixelRatio;
+      canvas.height = height * pixelRatio;
+      const context = canvas.getContext('2d')!;
+      const canvasPath = d3.geoPath(projection, context);
+      const locate = createCountryLocator(features);
+      let hovered: CountryFeature | null = null;
+
+      const getTransform = () => (isGlobe ? d3.zoomIdentity : d3.zoomTransform(svg.node()!));
+
+      const stroke = (color: string, lineWidth: number) => {
+        context.strokeStyle = color;
+        context.lineWidth = lineWidth;
+        context.stroke();
+      };
+
+      // Paints the whole map in the same order and colors as the svg renderer
+      const paint = () => {
+        const { getFill, isSelected } = paintRef.current;
+        const hasSelection = Boolean(selectedCountryRef.current);
+        const transform = getTransform();
+
+        context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        context.clearRect(0, 0, width, height);
+        context.translate(transform.x, transform.y);
+        context.scale(transform.k, transform.k);
+        context.lineJoin = 'round';
+
+        if (projectionType !== 'mercator') {
+          context.beginPath();
+          canvasPath({ type: 'Sphere' });
+          context.fillStyle = isGlobe ? '#eff6ff' : '#ffffff';
+          context.fill();
+          stroke('#cbd5e0', 0.5);
+        }
+        if (isGlobe) {
+          context.beginPath();
+          canvasPath(d3.geoGraticule10());
+          stroke('#dbeafe', 0.5);
+        }
 
-            let left = mouseX + 16;
-            let top = mouseY - tooltipHeight / 2;
+        features.forEach((feature) => {
+          context.globalAlpha = !hasSelection || isSelected(feature) ? 1 : 0.5;
+          context.beginPath();
+          canvasPath(feature);
+          context.fillStyle = getFill(feature);
+          context.fill();
+          stroke('#cbd5e0', isSelected(feature) ? 2 : 0.5);
+        });
+        context.globalAlpha = 1;
+
+        if (hovered) {
+          context.beginPath();
+          canvasPath(hovered);
+          stroke('#4A5568', 2);
+        }
 
-            if (left + tooltipWidth > window.innerWidth) {
-              left = mouseX - tooltipWidth - 16;
-            }
+        groupOutlinesRef.current.forEach(({ group, outline }) => {
+          context.beginPath();
+          canvasPath(outline);
+          stroke(group.color, 1.5);
+        });
+      };
+
+      const getFeatureAt = (event: MouseEvent): CountryFeature | null => {
+        const point = getTransform().invert(d3.pointer(event, svg.node()));
+        const location = projection.invert?.(point);
+        // Points off the map invert to a location that does not project back onto them
+        const projected = location && projection(location);
+        if (!location || !projected) return null;
+        if (!(Math.hypot(projected[0] - point[0], projected[1] - point[1]) <= 1)) return null;
+        return locate(location);
+      };
 
-            if (top < 0) {
-              top = 0;
-            } else if (top + tooltipHeight > window.innerHeight) {
-              top = window.innerHeight - tooltipHeight;
-            }
+      svg
+        .on('mousemove.hit', (event: MouseEvent) => {
+          const feature = getFeatureAt(event);
+          const countryData = feature ? paintRef.current.getCountryData(feature) : undefined;
+          const next = countryData ? feature : null;
+          if (next !== hovered) {
+            hovered = next;
+            paint();
+            if (countryData) showTooltip(countryData);
+            else tooltip.style('visibility', 'hidden');
+          }
+          if (hovered) moveTooltip(event);
+          svg.style('cursor', feature ? 'pointer' : isGlobe ? 'grab' : '');
+        })
+        .on('mouseleave.hit', () => {
+          hovered = null;
+          tooltip.style('visibility', 'hidden');
+          paint();
+        })
+        .on('click.hit', (event: MouseEvent) => {
+          const feature = getFeatureAt(event);
+          if (feature) toggleCountry(feature);
+        });
+
+      restyleRef.current = paint;
+      drawOutlinesRef.current = paint;
+      redrawRef.current = paint;
+      applyTransform = paint;
+    }
 
-            tooltip.style('left', `${left}px`).style('top', `${top}px`);
+    restyleRef.current();
+
+    // Add zoom behavior
+    const zoom = d3.zoom<SVGSVGElement, unknown>().scaleExtent([1, 8]);
+    if (isGlobe) {
+      // Dragging turns the globe, so it zooms with the wheel, double-click and buttons only
+      zoom
+        .filter((event) => event.type === 'wheel' || event.type === 'dblclick')
+        .on('zoom', (event) => {
+          globeZoomRef.current = event.transform.k;
+          projection.scale(baseScale * event.transform.k);
+          redrawRef.current?.();
+        })
+        .on('end', (event) => setGlobeZoom(event.transform.k));
+    } else {
+      zoom
+        .on('zoom', (event) => applyTransform(event.transform))
+        .on('end', (event) => {
+          const nextView = toMapView(event.transform);
+          if (!isSameView(nextView, viewRef.current)) onViewChangeRef.current?.(nextView);
+        });
+    }
+
+    const isFirstScene = zoomRef.current === undefined;
+    zoomRef.current = zoom;
+    svg.call(zoom);
+
+    if (isGlobe) {
+      svg.call(
+        d3
+          .drag<SVGSVGElement, unknown>()
+          .on('start', () => {
+            svg.interrupt('rotate');
           })
-          .on('mouseout', (event) => {
-            tooltip.style('visibility', 'hidden');
+          .on('drag', (event) => {
+            // One pixel is this many degrees at the centre, so the surface follows the pointer
+            const degreesPerPixel = 180 / (Math.PI * projection.scale());
+            const [lambda, phi, gamma] = projection.rotate();
+            globeRotationRef.current = [
+              lambda + event.dx * degreesPerPixel,
+              Math.max(-90, Math.min(90, phi - event.dy * degreesPerPixel)),
+              gamma,
+            ];
+            projection.rotate(globeRotationRef.current);
+            redrawRef.current?.();
+          }),
+      );
+    }
 
-            d3.select(event.currentTarget)
-              .transition()
-              .duration(200)
-              .attr('stroke-width', (d) => {
-                const isSelected = selectedCountry === (d as any).properties.name;
-                return isSelected ? 2 : 0.5;
-              })
-              .attr('stroke', '#cbd5e0');
-          });
-
-        // Add zoom behavior
-        const zoom = d3
-          .zoom()
-          .scaleExtent([1, 8])
-          .on('zoom', (event) => {
-            g.attr('transform', event.transform);
-          });
-
-        zoomRef.current = zoom;
-        svg.call(zoom as any);
-
-        // Initial zoom to selected country if any
-        if (selectedCountry) {
-          zoomToCountry(selectedCountry);
-        }
-      });
-  }, [data, selectedSector, selectedCountry, onCountrySelect]);
+    // Keep the current zoom; the map opens on the selected country when there is no saved view
+    if (isGlobe) {
+      svg.call(zoom.transform, d3.zoomIdentity.scale(globeZoomRef.current));
+    } else {
+      svg.call(zoom.transform, toZoomTransform(viewRef.current));
+    }
+    if (isFirstScene && !viewRef.current && selectedCountryRef.current) {
+      zoomToCountry(selectedCountryRef.current);
+    }
+  }, [features, projectionType, renderer]);
+
+  // Data, weights and selection only recolor the shapes already drawn
+  useEffect(() => {
+    restyleRef.current?.();
+  }, [countryDataMap, colorScale, isBivariate, bivariateScale, selectedSector, selectedCountry]);
+
+  // Adding, editing or showing a group only redraws the outlines, not the countries under them
+  useEffect(() => {
+    drawOutlinesRef.current?.();
+  }, [groupOutlines]);
+
+  // Zoom to a newly selected country; the scene zooms to the one the map opens with
+  const zoomedCountryRef = useRef(selectedCountry);
+  useEffect(() => {
+    if (zoomedCountryRef.current === selectedCountry) return;
+    zoomedCountryRef.current = selectedCountry;
+    if (selectedCountry) zoomToCountry(selectedCountry);
+  }, [selectedCountry]);
+
+  useEffect(() => {
+    if (!features) return;
+    const featureCodes = new Set(features.map((f) => f.properties.countryCode));
+    onUnmappedCountries?.(data.filter((d) => d.countryCode && !featureCodes.has(d.countryCode)));
+  }, [features, data, onUnmappedCountries]);
+
+  // Follow view changes made outside the map, such as browser back and forward
+  useEffect(() => {
+    if (!svgRef.current || !zoomRef.current || isGlobe) return;
+    if (isSameView(toMapView(d3.zoomTransform(svgRef.current)), view)) return;
+    zoomRef.current.transform(
+      d3.select(svgRef.current).transition().duration(750),
+      toZoomTransform(view),
+    );
+  }, [view, isGlobe]);
+
+  // A zoom on one projection points somewhere else on another, so switching starts from the
+  // whole world
+  const handleProjectionChange = (next: MapProjection) => {
+    setProjectionType(next);
+    if (view) onViewChange?.(null);
+  };
 
   // Handle country selection from dropdown
   const handleCountrySelect = (option: CountryOption | null) => {
     const countryName = option?.value || null;
     onCountrySelect?.(countryName);
-    zoomToCountry(countryName);
   };
 
   return (
@@ -281,6 +773,51 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
           }}
         />
         <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Projection
+            <select
+              value={projectionType}
+              onChange={(e) => handleProjectionChange(e.target.value as MapProjection)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              title={MAP_PROJECTIONS.find((option) => option.value === projectionType)?.description}
+            >
+              {MAP_PROJECTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Borders
+            <select
+              value={resolutionSetting}
+              onChange={(e) => setResolutionSetting(e.target.value as MapResolutionSetting)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              title="Auto uses detailed borders when zoomed in"
+            >
+              {MAP_RESOLUTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Renderer
+            <select
+              value={renderer}
+              onChange={(e) => setRenderer(e.target.value as MapRenderer)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              title="Canvas repaints faster, especially with detailed borders"
+            >
+              {MAP_RENDERER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
           <button
             onClick={() => handleZoom('in')}
             className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
@@ -305,15 +842,119 @@ const WorldMap: React.FC<Props> = ({ data, selectedSector, selectedCountry, onCo
         </div>
       </div>
       <div className="relative">
+        {renderer === 'canvas' && (
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 bg-gray-50"
+            style={{ width: '100%', height: 400 }}
+          />
+        )}
         <svg
           ref={svgRef}
           width="100%"
           height="400"
-          className="bg-gray-50"
+          className={`relative ${renderer === 'svg' ? 'bg-gray-50' : ''}`}
           style={{ overflow: 'hidden' }}
         />
+        {geometryStatus === 'loading' && (
+          <div
+            className={`absolute flex items-center gap-2 text-sm text-gray-500 ${
+              features ? 'top-2 left-2' : 'inset-0 justify-center'
+            }`}
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading map…
+          </div>
+        )}
+        {geometryStatus === 'error' && (
+          <div
+            className={`absolute flex items-center gap-3 text-sm text-red-700 ${
+              features ? 'top-2 left-2 bg-red-50 px-3 py-2 rounded' : 'inset-0 justify-center'
+            }`}
+          >
+            {features ? 'Detailed borders could not be loaded.' : 'The map could not be loaded.'}
+            <button
+              onClick={() => setRetryCount((count) => count + 1)}
+              className="px-3 py-1 bg-white border border-red-300 hover:bg-red-50 rounded-md text-red-700 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
         <div ref={tooltipRef} />
       </div>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        {isBivariate ? (
+          <BivariateLegend
+            xLabel={getSectorName(sectors, xSector)}
+            yLabel={getSectorName(sectors, ySector)}
+            highlight={getBivariateClass(data.find((d) => d.country === selectedCountry))}
+          />
+        ) : (
+          <ColorLegend
+            scale={colorScale}
+            title={
+              selectedSector
+                ? getSectorName(sectors, selectedSector)
+                : getTotalScoreLabel(aggregation)
+            }
+          />
+        )}
+        {sectors.length >= 2 && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              Color by
+              <select
+                value={colorMode}
+                onChange={(e) => setColorMode(e.target.value as 'score' | 'bivariate')}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              >
+                <option value="score">Score</option>
+                <option value="bivariate">Two sectors</option>
+              </select>
+            </label>
+            {isBivariate && (
+              <>
+                <select
+                  value={xSector}
+                  onChange={(e) => setBivariateKeys([e.target.value, ySector])}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+                  title="Horizontal axis of the legend"
+                >
+                  {sectors.map((sector) => (
+                    <option key={sector.key} value={sector.key}>
+                      {sector.name}
+                    </option>
+                  ))}
+                </select>
+                vs
+                <select
+                  value={ySector}
+                  onChange={(e) => setBivariateKeys([xSector, e.target.value])}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+                  title="Vertical axis of the legend"
+                >
+                  {sectors.map((sector) => (
+                    <option key={sector.key} value={sector.key}>
+                      {sector.name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      {outlinedGroups.length > 0 && (
+        <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+          {outlinedGroups.map((group) => (
+            <span key={group.id} className="flex items-center gap-1">
+              <span className="w-5 border-t-2" style={{ borderColor: group.color }} />
+              {group.name}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
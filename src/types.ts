@@ -1,24 +1,231 @@
+export interface Sector {
+  key: string;
+  name: string;
+  color: string;
+}
+
+export type SectorWeights = Record<string, number>;
+
+// A named set of sector weights the user can switch between and compare
+export interface Scenario {
+  id: string;
+  name: string;
+  weights: SectorWeights;
+}
+
 export interface CountryData {
   country: string;
-  ai: number;
-  quantum: number;
-  semiconductors: number;
-  biotech: number;
-  space: number;
-  fintech: number;
+  // Name as written in the source file, before it was matched to the country registry
+  sourceName: string;
+  // ISO 3166 alpha-3 code, or null when the country could not be matched
+  countryCode: string | null;
+  // Values from the file, with missing cells filled in by imputation (excluded ones stay absent)
+  sectorValues: {
+    [key: string]: number;
+  };
+  // Sectors whose value was missing in the file, with the strategy that handled it
+  imputedSectors: {
+    [key: string]: ImputationMethod;
+  };
+  // Sector values after the normalization step, before weighting
+  normalizedValues: {
+    [key: string]: number;
+  };
+  // Sector scores combined with the aggregation method in use
+  totalScore: number;
+  // Weighted sector values; Borda points times the weight under Borda aggregation
+  sectorScores: {
+    [key: string]: number;
+  };
+  // Position by total score within the edition, 1 being the best
+  rank: number;
+  // Places gained since the previous edition; null when the country was not ranked there
+  rankChange: number | null;
+}
+
+// Where parsed rows came from, so validation issues can point at spreadsheet cells
+export interface SheetLayout {
+  sheetName: string;
+  headerRow: number;
+  rowNumbers: number[];
+  columnLetters: Record<string, string>;
+}
+
+// Raw spreadsheet rows for one index edition (one workbook sheet)
+export interface YearSheet {
+  year: string;
+  rows: any[];
+  layout?: SheetLayout;
+}
+
+export type NormalizationMethod = 'none' | 'minmax' | 'zscore' | 'rank' | 'percentile';
+
+export interface NormalizationSettings {
+  // Method for the whole dataset
+  method: NormalizationMethod;
+  // Sectors that use a different method than the dataset
+  sectorMethods: Record<string, NormalizationMethod>;
+}
+
+// 'exclude' leaves the sector out for that country and spreads its weight over the others
+export type ImputationMethod = 'exclude' | 'mean' | 'median' | 'regional' | 'zero';
+
+export interface ImputationSettings {
+  method: ImputationMethod;
+  sectorMethods: Record<string, ImputationMethod>;
+}
+
+// How the weighted sector values are combined into the total score
+export type AggregationMethod = 'arithmetic' | 'geometric' | 'minimum' | 'penalized' | 'borda';
+
+export interface ProcessingOptions {
+  // Load the rows that passed validation even when other rows have errors
+  skipInvalidRows?: boolean;
+  // Country registry choices made by the user, keyed by the name in the source file
+  countryOverrides?: Record<string, string>;
+  normalization?: NormalizationSettings;
+  imputation?: ImputationSettings;
+  aggregation?: AggregationMethod;
+}
+
+// Dirichlet draws whole weight vectors around the current weights; 'range' moves each sector
+// within ± percentage points and rescales to the same total
+export type SensitivityMethod = 'dirichlet' | 'range';
+
+export interface SensitivitySettings {
+  method: SensitivityMethod;
+  samples: number;
+  // Dirichlet concentration: higher values keep the samples closer to the current weights
+  concentration: number;
+  // ± percentage points for every sector in range mode
+  range: number;
+  // Sectors with their own ± range
+  sectorRanges: Record<string, number>;
+  topN: number;
+  // Fixed seed so the same settings give the same result
+  seed: number;
+}
+
+export interface CountrySensitivity {
+  country: string;
+  medianRank: number;
+  // 5th and 95th percentile of the sampled ranks
+  rankLow: number;
+  rankHigh: number;
+  // Share of the samples that ranked the country in the top N
+  topNProbability: number;
+}
+
+export interface SensitivityResult {
+  settings: SensitivitySettings;
+  // Weights and edition the samples were drawn for, to tell when the result is out of date
+  weights: SectorWeights;
+  year: string;
+  countries: CountrySensitivity[];
+}
+
+// What the weight solver should achieve for a country
+export type SolverGoal = { type: 'rank'; rank: number } | { type: 'beat'; rival: string };
+
+// Allowed weight range of a sector while solving, as fractions like the weights themselves
+export interface SectorBounds {
+  min: number;
+  max: number;
+}
+
+export interface SolverResult {
+  // 'met' when the current weights already achieve the goal
+  status: 'met' | 'solved' | 'infeasible';
+  weights: SectorWeights | null;
+  // Rank of the country under the suggested weights
+  rank: number | null;
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  sheet: string | null;
+  row: number | null;
+  column: string | null;
+  // Cell reference such as D14, when the column position is known
+  cell: string | null;
+  value?: unknown;
+  // Row-level problems can be skipped, structural ones (missing columns) cannot
+  rowLevel: boolean;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  hasErrors: boolean;
+  canSkipInvalidRows: boolean;
+  // Editions that leave no country rows to process
+  emptyYears: string[];
+}
+
+export interface YearData {
+  year: string;
+  previousYear: string | null;
+  data: CountryData[];
+}
+
+export interface CountryInfo {
+  name: string;
+  alpha2: string;
+  alpha3: string;
+  // Empty for territories without an ISO numeric code (Kosovo)
+  numeric: string;
+  aliases: string[];
+}
+
+// How scores are grouped into color classes on the map and in the table
+export type ClassificationMethod = 'continuous' | 'quantile' | 'equal' | 'jenks' | 'custom';
+
+export interface ColorScheme {
+  classification: ClassificationMethod;
+  // Number of classes for the quantile, equal interval and Jenks methods
+  classes: number;
+  // Id of an entry in PALETTES
+  palette: string;
+  // Class boundaries for the custom method, ascending; a boundary value falls in the upper class
+  customBreaks: number[];
+}
+
+// A bloc of countries shown as one aggregate row, bar and map outline
+export interface CountryGroup {
+  id: string;
+  name: string;
+  // ISO 3166 alpha-3 codes
+  members: string[];
+  // Outline color on the map
+  color: string;
+  // Built-in blocs ship with the app and cannot be edited or deleted
+  isBuiltIn: boolean;
+}
+
+// How the scores of a group's members are combined into the group's scores
+export type GroupAggregation = 'mean' | 'population' | 'gdp' | 'best';
+
+export interface GroupScore {
+  group: CountryGroup;
   totalScore: number;
   sectorScores: {
     [key: string]: number;
   };
+  // Members that are in the current edition
+  members: CountryData[];
+  // Members left out because the aggregation needs a population or GDP figure they lack
+  unweightedMembers: CountryData[];
+  // Member whose scores the group takes under the 'best' method
+  bestMember: string | null;
+  // Place the group's total score would take among the countries
+  rank: number;
 }
 
-export interface SectorWeights {
-  ai: number;
-  quantum: number;
-  semiconductors: number;
-  biotech: number;
-  space: number;
-  fintech: number;
+// d3 zoom transform of the world map: scale and translation in pixels
+export interface MapView {
+  k: number;
+  x: number;
+  y: number;
 }
 
 export interface InteractiveProps {
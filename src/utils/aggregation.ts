@@ -0,0 +1,151 @@
+import * as d3 from 'd3';
+import type { AggregationMethod, CountryData, SectorWeights } from '../types';
+import { getEffectiveWeights } from './imputation';
+import { normalizeValues } from './normalization';
+
+export interface AggregationMethodInfo {
+  value: AggregationMethod;
+  label: string;
+  description: string;
+  // Plain-text formula; W is the total weight, wᵢ and xᵢ the weight and value of sector i
+  formula: string;
+}
+
+export const AGGREGATION_METHODS: AggregationMethodInfo[] = [
+  {
+    value: 'arithmetic',
+    label: 'Weighted sum',
+    description:
+      'Full compensation: strength in one sector makes up for weakness in another. With weights adding up to 100% this is the weighted mean.',
+    formula: 'Σ wᵢ·xᵢ',
+  },
+  {
+    value: 'geometric',
+    label: 'Weighted geometric mean',
+    description:
+      'Partial compensation: a weak sector pulls the score down more than a strong one lifts it, and a zero gives zero. Values below 0 count as 0.',
+    formula: 'W · Π xᵢ^(wᵢ/W)',
+  },
+  {
+    value: 'minimum',
+    label: 'Weakest sector',
+    description:
+      'No compensation: the score is the lowest value among the weighted sectors. Weights only decide which sectors count.',
+    formula: 'W · min xᵢ (sectors with wᵢ > 0)',
+  },
+  {
+    value: 'penalized',
+    label: 'Penalized mean',
+    description:
+      'The arithmetic mean minus the spread between sectors, so balanced profiles score higher than uneven ones.',
+    formula: 'W · (μ − σ), μ = Σ wᵢ·xᵢ / W, σ = √(Σ wᵢ·(xᵢ − μ)² / W)',
+  },
+  {
+    value: 'borda',
+    label: 'Borda count',
+    description:
+      'Each sector ranks the countries. A country earns a point for every country it beats there (half for a tie), and the points are weighted.',
+    formula: 'Σ wᵢ·bᵢ, bᵢ = countries beaten in sector i',
+  },
+];
+
+export const DEFAULT_AGGREGATION: AggregationMethod = 'arithmetic';
+
+export function getAggregationInfo(method: AggregationMethod): AggregationMethodInfo {
+  return AGGREGATION_METHODS.find((info) => info.value === method) ?? AGGREGATION_METHODS[0];
+}
+
+// "Total Score", naming the method when it is not the usual weighted sum
+export function getTotalScoreLabel(method: AggregationMethod): string {
+  return method === DEFAULT_AGGREGATION
+    ? 'Total Score'
+    : `Total Score (${getAggregationInfo(method).label})`;
+}
+
+// Whether the sector scores add up to the total score, so they can be stacked as they are
+export function isAdditiveAggregation(method: AggregationMethod): boolean {
+  return method === 'arithmetic' || method === 'borda';
+}
+
+// Countries beaten in each sector, among the countries that have a value there
+export function getBordaPoints(
+  data: CountryData[],
+  sectorKeys: string[],
+): Map<string, Record<string, number>> {
+  const points = new Map(data.map((country) => [country.country, {} as Record<string, number>]));
+
+  sectorKeys.forEach((key) => {
+    const present = data.filter((country) => country.normalizedValues[key] !== undefined);
+    const ranks = normalizeValues(
+      present.map((country) => country.normalizedValues[key]),
+      'rank',
+    );
+    present.forEach((country, index) => {
+      points.get(country.country)![key] = ranks[index] - 1;
+    });
+  });
+
+  return points;
+}
+
+function combine(values: number[], weights: number[], method: AggregationMethod): number {
+  const total = d3.sum(weights);
+  if (total === 0) return 0;
+
+  switch (method) {
+    case 'arithmetic':
+    case 'borda':
+      return d3.sum(values, (value, i) => value * weights[i]);
+    case 'geometric':
+      return (
+        total *
+        Math.exp(d3.sum(values, (value, i) => (weights[i] / total) * Math.log(Math.max(0, value))))
+      );
+    case 'minimum':
+      return total * d3.min(values)!;
+    case 'penalized': {
+      const mean = d3.sum(values, (value, i) => value * weights[i]) / total;
+      const spread = Math.sqrt(
+        d3.sum(values, (value, i) => weights[i] * (value - mean) ** 2) / total,
+      );
+      return total * (mean - spread);
+    }
+  }
+}
+
+// Sets the sector scores and total score of every country. Borda points depend on the other
+// countries, so the whole edition is aggregated at once.
+export function aggregateScores(
+  data: CountryData[],
+  weights: SectorWeights,
+  method: AggregationMethod,
+): CountryData[] {
+  const bordaPoints = method === 'borda' ? getBordaPoints(data, Object.keys(weights)) : null;
+
+  return data.map((country) => {
+    const values = bordaPoints?.get(country.country) ?? country.normalizedValues;
+    // Excluded sectors contribute nothing and their weight goes to the country's other sectors
+    const effectiveWeights = getEffectiveWeights(country, weights);
+
+    const sectorScores = Object.entries(effectiveWeights).reduce(
+      (acc, [sector, weight]) => {
+        acc[sector] = (values[sector] ?? 0) * weight;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    const counted = Object.entries(effectiveWeights).filter(([, weight]) => weight > 0);
+    const totalScore = combine(
+      counted.map(([sector]) => values[sector] ?? 0),
+      counted.map(([, weight]) => weight),
+      method,
+    );
+
+    return {
+      ...country,
+      totalScore,
+      sectorScores,
+    };
+  });
+}
@@ -0,0 +1,260 @@
+import * as d3 from 'd3';
+import type { ClassificationMethod, ColorScheme } from '../types';
+
+export interface ClassificationInfo {
+  value: ClassificationMethod;
+  label: string;
+  description: string;
+}
+
+export const CLASSIFICATION_METHODS: ClassificationInfo[] = [
+  {
+    value: 'continuous',
+    label: 'Continuous',
+    description: 'Color follows the score smoothly from the lowest to the highest country.',
+  },
+  {
+    value: 'quantile',
+    label: 'Quantiles',
+    description: 'Each class holds about the same number of countries.',
+  },
+  {
+    value: 'equal',
+    label: 'Equal interval',
+    description: 'The score range is cut into classes of the same width.',
+  },
+  {
+    value: 'jenks',
+    label: 'Natural breaks (Jenks)',
+    description: 'Classes follow the gaps in the data, keeping similar scores together.',
+  },
+  {
+    value: 'custom',
+    label: 'Custom breaks',
+    description: 'Classes start at the boundaries you enter.',
+  },
+];
+
+export interface PaletteInfo {
+  id: string;
+  label: string;
+  // Diverging palettes are centred on zero when the scores span it, otherwise on the mean
+  type: 'sequential' | 'diverging';
+  interpolator: (t: number) => string;
+}
+
+// ColorBrewer and matplotlib schemes that stay distinguishable with common color vision
+// deficiencies
+export const PALETTES: PaletteInfo[] = [
+  { id: 'greens', label: 'Greens', type: 'sequential', interpolator: d3.interpolateGreens },
+  { id: 'blues', label: 'Blues', type: 'sequential', interpolator: d3.interpolateBlues },
+  {
+    id: 'ylgnbu',
+    label: 'Yellow-green-blue',
+    type: 'sequential',
+    interpolator: d3.interpolateYlGnBu,
+  },
+  { id: 'viridis', label: 'Viridis', type: 'sequential', interpolator: d3.interpolateViridis },
+  { id: 'cividis', label: 'Cividis', type: 'sequential', interpolator: d3.interpolateCividis },
+  { id: 'puor', label: 'Purple-orange', type: 'diverging', interpolator: d3.interpolatePuOr },
+  { id: 'brbg', label: 'Brown-teal', type: 'diverging', interpolator: d3.interpolateBrBG },
+  { id: 'rdbu', label: 'Red-blue', type: 'diverging', interpolator: d3.interpolateRdBu },
+];
+
+export const DEFAULT_COLOR_SCHEME: ColorScheme = {
+  classification: 'continuous',
+  classes: 5,
+  palette: 'greens',
+  customBreaks: [],
+};
+
+export interface ColorScale {
+  color: (value: number) => string;
+  // Class boundaries in ascending order; empty for the continuous method
+  breaks: number[];
+  // One color per class, or sample colors along the ramp for the continuous method
+  colors: string[];
+  domain: [number, number];
+  isContinuous: boolean;
+}
+
+export function getPalette(id: string): PaletteInfo {
+  return PALETTES.find((palette) => palette.id === id) ?? PALETTES[0];
+}
+
+// Fisher-Jenks optimal classification: minimises the variance within classes. Returns the
+// lowest value of every class but the first, which is what a threshold scale expects.
+function jenksBreaks(values: number[], classes: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const k = Math.min(classes, new Set(sorted).size);
+  if (k < 2) return [];
+
+  // 1-based tables as in the original description of the algorithm
+  const lowerLimits = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const variances = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  for (let j = 1; j <= k; j++) {
+    lowerLimits[1][j] = 1;
+    for (let i = 2; i <= n; i++) variances[i][j] = Infinity;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerLimit = l - m + 1;
+      const value = sorted[lowerLimit - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      const previous = lowerLimit - 1;
+      if (previous === 0) continue;
+      for (let j = 2; j <= k; j++) {
+        if (variances[l][j] >= variance + variances[previous][j - 1]) {
+          lowerLimits[l][j] = lowerLimit;
+          variances[l][j] = variance + variances[previous][j - 1];
+        }
+      }
+    }
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let last = n;
+  for (let j = k; j >= 2; j--) {
+    const lowerLimit = lowerLimits[last][j];
+    breaks.unshift(sorted[lowerLimit - 1]);
+    last = lowerLimit - 1;
+  }
+  return breaks;
+}
+
+function getBreaks(values: number[], scheme: ColorScheme, domain: [number, number]): number[] {
+  const [min, max] = domain;
+  switch (scheme.classification) {
+    case 'continuous':
+      return [];
+    case 'quantile':
+      return d3.scaleQuantile().domain(values).range(d3.range(scheme.classes)).quantiles();
+    case 'equal':
+      return d3.range(1, scheme.classes).map((i) => min + ((max - min) * i) / scheme.classes);
+    case 'jenks':
+      return jenksBreaks(values, scheme.classes);
+    case 'custom':
+      return scheme.customBreaks;
+  }
+}
+
+// Builds the color scale for one set of scores, so the map and each table column share the
+// same classification and palette
+export function createColorScale(values: number[], scheme: ColorScheme): ColorScale {
+  const palette = getPalette(scheme.palette);
+  const finite = values.filter((value) => Number.isFinite(value));
+  const [min, max] = (d3.extent(finite) as [number | undefined, number | undefined]).map(
+    (value) => value ?? 0,
+  ) as [number, number];
+  const domain: [number, number] = [min, max];
+
+  // Sequential ramps skip their near-white start so the lowest class stays visible
+  const ramp =
+    palette.type === 'sequential'
+      ? (t: number) => palette.interpolator(0.1 + 0.9 * t)
+      : palette.interpolator;
+
+  if (scheme.classification === 'continuous') {
+    const mid = min < 0 && max > 0 ? 0 : (d3.mean(finite) ?? 0);
+    const scale =
+      palette.type === 'diverging'
+        ? d3.scaleDiverging(ramp).domain([min, mid, max])
+        : d3.scaleSequential(ramp).domain([min, max === min ? min + 1 : max]);
+    return {
+      color: (value) => scale(value),
+      breaks: [],
+      colors: d3.range(11).map((i) => ramp(i / 10)),
+      domain,
+      isContinuous: true,
+    };
+  }
+
+  // Repeated values can give the same boundary twice, which would leave an empty class
+  const breaks = Array.from(new Set(getBreaks(finite, scheme, domain))).sort((a, b) => a - b);
+  const colors = d3
+    .range(breaks.length + 1)
+    .map((i) => ramp(breaks.length === 0 ? 0.5 : i / breaks.length));
+  const scale = d3.scaleThreshold<number, string>().domain(breaks).range(colors);
+
+  return {
+    color: (value) => scale(value),
+    breaks,
+    colors,
+    domain,
+    isContinuous: false,
+  };
+}
+
+// Dark fills need light text to stay readable
+export function getTextColor(background: string): string {
+  return d3.hcl(background).l < 55 ? '#FFFFFF' : '#1A202C';
+}
+
+// "0.2, 0.5,0.8" -> [0.2, 0.5, 0.8]; anything that is not a number is dropped
+export function parseBreaks(text: string): number[] {
+  const values = text
+    .split(/[,;\s]+/)
+    .filter((part) => part !== '')
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+// Joshua Stevens' 3×3 blue-red scheme. Rows run from low to high on the vertical sector and
+// columns from low to high on the horizontal one.
+export const BIVARIATE_COLORS = [
+  ['#e8e8e8', '#e4acac', '#c85a5a'],
+  ['#b0d5df', '#ad9ea5', '#985356'],
+  ['#64acbe', '#627f8c', '#574249'],
+];
+
+export const BIVARIATE_CLASS_LABELS = ['Low', 'Medium', 'High'];
+
+export interface BivariateScale {
+  // Tertile of each value: 0 low, 1 medium, 2 high
+  classify: (x: number, y: number) => [number, number];
+  color: (x: number, y: number) => string;
+  // Lower bounds of the medium and high tertiles
+  xBreaks: number[];
+  yBreaks: number[];
+}
+
+function getTertileBreaks(values: number[]): number[] {
+  const finite = values.filter((value) => Number.isFinite(value));
+  if (finite.length === 0) return [];
+  const quantiles = d3.scaleQuantile().domain(finite).range([0, 1, 2]).quantiles();
+  return Array.from(new Set(quantiles));
+}
+
+// Splits both sets of values into tertiles, so each axis of the 3×3 palette holds about a third
+// of the countries
+export function createBivariateScale(xValues: number[], yValues: number[]): BivariateScale {
+  const xBreaks = getTertileBreaks(xValues);
+  const yBreaks = getTertileBreaks(yValues);
+  const classOf = (breaks: number[], value: number) =>
+    Math.min(BIVARIATE_COLORS.length - 1, d3.bisectRight(breaks, value));
+
+  const classify = (x: number, y: number): [number, number] => [
+    classOf(xBreaks, x),
+    classOf(yBreaks, y),
+  ];
+
+  return {
+    classify,
+    color: (x, y) => {
+      const [column, row] = classify(x, y);
+      return BIVARIATE_COLORS[row][column];
+    },
+    xBreaks,
+    yBreaks,
+  };
+}
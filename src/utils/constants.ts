@@ -1,26 +1,41 @@
-export const defaultSectorWeights = {
-  ai: 0.2,
-  quantum: 0.1,
-  semiconductors: 0.2,
-  biotech: 0.2,
-  space: 0.2,
-  fintech: 0.1,
-};
+// Colors handed out to sectors in the order they appear in the spreadsheet header
+export const sectorPalette = [
+  '#4299E1',
+  '#48BB78',
+  '#ED8936',
+  '#9F7AEA',
+  '#F56565',
+  '#38B2AC',
+  '#ECC94B',
+  '#ED64A6',
+  '#667EEA',
+  '#A0AEC0',
+  '#C05621',
+  '#2F855A',
+];
 
-export const sectorColors = {
-  ai: '#4299E1',
-  quantum: '#48BB78',
-  semiconductors: '#ED8936',
-  biotech: '#9F7AEA',
-  space: '#F56565',
-  fintech: '#38B2AC',
-};
+// Optional header columns holding an ISO 3166 code (alpha-2, alpha-3 or numeric) per country
+export const isoCodeColumns = [
+  'ISO',
+  'ISO2',
+  'ISO3',
+  'ISO Code',
+  'ISO 3166',
+  'Country Code',
+  'Code',
+];
 
-export const sectorNames = {
-  ai: 'AI',
-  quantum: 'Quantum',
-  semiconductors: 'Semiconductors',
-  biotech: 'Biotech',
-  space: 'Space',
-  fintech: 'Fintech',
-};
+// Header columns that are never treated as sectors
+export const nonSectorColumns = ['Country', 'Total', 'Total Score', ...isoCodeColumns];
+
+// localStorage key for the user's manual country matches, keyed by the name used in the file
+export const countryOverridesStorageKey = 'dets.countryOverrides';
+
+// Cell text that statistical sources use for "no data"; such cells are treated like empty ones
+export const missingValueMarkers = ['na', 'n/a', 'n.a.', 'nan', '-', '–', '—', '..', '...'];
+
+// localStorage key for the saved weighting scenarios
+export const scenariosStorageKey = 'dets.scenarios';
+
+// localStorage key for the user's own country groups
+export const groupsStorageKey = 'dets.groups';
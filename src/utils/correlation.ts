@@ -0,0 +1,40 @@
+import * as d3 from 'd3';
+import { normalizeValues } from './normalization';
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+}
+
+// Ordinary least squares fit of y on x; null with fewer than two distinct x values
+export function linearRegression(xs: number[], ys: number[]): LinearFit | null {
+  const meanX = d3.mean(xs);
+  const meanY = d3.mean(ys);
+  if (meanX === undefined || meanY === undefined) return null;
+
+  const covariance = d3.sum(xs, (x, i) => (x - meanX) * (ys[i] - meanY));
+  const varianceX = d3.sum(xs, (x) => (x - meanX) ** 2);
+  if (varianceX === 0) return null;
+
+  const slope = covariance / varianceX;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+// Null when there are fewer than three pairs or either variable is constant
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const meanX = d3.mean(xs)!;
+  const meanY = d3.mean(ys)!;
+
+  const covariance = d3.sum(xs, (x, i) => (x - meanX) * (ys[i] - meanY));
+  const spreadX = Math.sqrt(d3.sum(xs, (x) => (x - meanX) ** 2));
+  const spreadY = Math.sqrt(d3.sum(ys, (y) => (y - meanY) ** 2));
+  if (spreadX === 0 || spreadY === 0) return null;
+
+  return covariance / (spreadX * spreadY);
+}
+
+// Pearson correlation of the ranks, which picks up any monotonic relationship
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(normalizeValues(xs, 'rank'), normalizeValues(ys, 'rank'));
+}
@@ -0,0 +1,494 @@
+import type { CountryInfo } from '../types';
+
+type CountryEntry = [
+  name: string,
+  alpha2: string,
+  alpha3: string,
+  numeric: string,
+  aliases?: string[],
+];
+
+// ISO 3166-1 countries. Names follow the world map geometry where one exists; the aliases cover
+// the abbreviated map labels plus the spellings used by the UN, World Bank and other sources.
+const COUNTRY_ENTRIES: CountryEntry[] = [
+  ['Afghanistan', 'AF', 'AFG', '004'],
+  ['Åland Islands', 'AX', 'ALA', '248', ['Aland']],
+  ['Albania', 'AL', 'ALB', '008'],
+  ['Algeria', 'DZ', 'DZA', '012'],
+  ['American Samoa', 'AS', 'ASM', '016'],
+  ['Andorra', 'AD', 'AND', '020'],
+  ['Angola', 'AO', 'AGO', '024'],
+  ['Anguilla', 'AI', 'AIA', '660'],
+  ['Antarctica', 'AQ', 'ATA', '010'],
+  ['Antigua and Barbuda', 'AG', 'ATG', '028', ['Antigua']],
+  ['Argentina', 'AR', 'ARG', '032'],
+  ['Armenia', 'AM', 'ARM', '051'],
+  ['Aruba', 'AW', 'ABW', '533'],
+  ['Australia', 'AU', 'AUS', '036'],
+  ['Austria', 'AT', 'AUT', '040'],
+  ['Azerbaijan', 'AZ', 'AZE', '031'],
+  ['Bahamas', 'BS', 'BHS', '044', ['The Bahamas', 'Bahamas, The']],
+  ['Bahrain', 'BH', 'BHR', '048'],
+  ['Bangladesh', 'BD', 'BGD', '050'],
+  ['Barbados', 'BB', 'BRB', '052'],
+  ['Belarus', 'BY', 'BLR', '112', ['Byelorussia']],
+  ['Belgium', 'BE', 'BEL', '056'],
+  ['Belize', 'BZ', 'BLZ', '084'],
+  ['Benin', 'BJ', 'BEN', '204'],
+  ['Bermuda', 'BM', 'BMU', '060'],
+  ['Bhutan', 'BT', 'BTN', '064'],
+  [
+    'Bolivia',
+    'BO',
+    'BOL',
+    '068',
+    ['Bolivia (Plurinational State of)', 'Plurinational State of Bolivia'],
+  ],
+  ['Bonaire, Sint Eustatius and Saba', 'BQ', 'BES', '535', ['Caribbean Netherlands']],
+  ['Bosnia and Herzegovina', 'BA', 'BIH', '070', ['Bosnia and Herz.', 'Bosnia']],
+  ['Botswana', 'BW', 'BWA', '072'],
+  ['Bouvet Island', 'BV', 'BVT', '074'],
+  ['Brazil', 'BR', 'BRA', '076', ['Brasil']],
+  ['British Indian Ocean Territory', 'IO', 'IOT', '086'],
+  ['Brunei', 'BN', 'BRN', '096', ['Brunei Darussalam']],
+  ['Bulgaria', 'BG', 'BGR', '100'],
+  ['Burkina Faso', 'BF', 'BFA', '854'],
+  ['Burundi', 'BI', 'BDI', '108'],
+  ['Cabo Verde', 'CV', 'CPV', '132', ['Cape Verde']],
+  ['Cambodia', 'KH', 'KHM', '116'],
+  ['Cameroon', 'CM', 'CMR', '120'],
+  ['Canada', 'CA', 'CAN', '124'],
+  ['Cayman Islands', 'KY', 'CYM', '136'],
+  ['Central African Republic', 'CF', 'CAF', '140', ['Central African Rep.', 'CAR']],
+  ['Chad', 'TD', 'TCD', '148'],
+  ['Chile', 'CL', 'CHL', '152'],
+  ['China', 'CN', 'CHN', '156', ['PRC', "People's Republic of China", 'Mainland China']],
+  ['Christmas Island', 'CX', 'CXR', '162'],
+  ['Cocos (Keeling) Islands', 'CC', 'CCK', '166', ['Cocos Islands']],
+  ['Colombia', 'CO', 'COL', '170'],
+  ['Comoros', 'KM', 'COM', '174'],
+  ['Congo', 'CG', 'COG', '178', ['Republic of the Congo', 'Congo, Rep.', 'Congo-Brazzaville']],
+  [
+    'Democratic Republic of the Congo',
+    'CD',
+    'COD',
+    '180',
+    ['Dem. Rep. Congo', 'Congo, Dem. Rep.', 'DRC', 'DR Congo', 'Congo-Kinshasa', 'Zaire'],
+  ],
+  ['Cook Islands', 'CK', 'COK', '184'],
+  ['Costa Rica', 'CR', 'CRI', '188'],
+  ["Côte d'Ivoire", 'CI', 'CIV', '384', ['Ivory Coast']],
+  ['Croatia', 'HR', 'HRV', '191', ['Hrvatska']],
+  ['Cuba', 'CU', 'CUB', '192'],
+  ['Curaçao', 'CW', 'CUW', '531'],
+  ['Cyprus', 'CY', 'CYP', '196'],
+  ['Czechia', 'CZ', 'CZE', '203', ['Czech Republic']],
+  ['Denmark', 'DK', 'DNK', '208'],
+  ['Djibouti', 'DJ', 'DJI', '262'],
+  ['Dominica', 'DM', 'DMA', '212'],
+  ['Dominican Republic', 'DO', 'DOM', '214', ['Dominican Rep.']],
+  ['Ecuador', 'EC', 'ECU', '218'],
+  ['Egypt', 'EG', 'EGY', '818', ['Egypt, Arab Rep.', 'Arab Republic of Egypt']],
+  ['El Salvador', 'SV', 'SLV', '222'],
+  ['Equatorial Guinea', 'GQ', 'GNQ', '226', ['Eq. Guinea']],
+  ['Eritrea', 'ER', 'ERI', '232'],
+  ['Estonia', 'EE', 'EST', '233'],
+  ['eSwatini', 'SZ', 'SWZ', '748', ['Eswatini', 'Swaziland', 'Kingdom of Eswatini']],
+  ['Ethiopia', 'ET', 'ETH', '231'],
+  [
+    'Falkland Islands',
+    'FK',
+    'FLK',
+    '238',
+    ['Falkland Is.', 'Falkland Islands (Malvinas)', 'Malvinas'],
+  ],
+  ['Faroe Islands', 'FO', 'FRO', '234'],
+  ['Fiji', 'FJ', 'FJI', '242'],
+  ['Finland', 'FI', 'FIN', '246'],
+  ['France', 'FR', 'FRA', '250'],
+  ['French Guiana', 'GF', 'GUF', '254'],
+  ['French Polynesia', 'PF', 'PYF', '258'],
+  [
+    'French Southern and Antarctic Lands',
+    'TF',
+    'ATF',
+    '260',
+    ['Fr. S. Antarctic Lands', 'French Southern Territories'],
+  ],
+  ['Gabon', 'GA', 'GAB', '266'],
+  ['Gambia', 'GM', 'GMB', '270', ['The Gambia', 'Gambia, The']],
+  ['Georgia', 'GE', 'GEO', '268'],
+  ['Germany', 'DE', 'DEU', '276', ['Deutschland', 'Federal Republic of Germany']],
+  ['Ghana', 'GH', 'GHA', '288'],
+  ['Gibraltar', 'GI', 'GIB', '292'],
+  ['Greece', 'GR', 'GRC', '300', ['Hellas']],
+  ['Greenland', 'GL', 'GRL', '304'],
+  ['Grenada', 'GD', 'GRD', '308'],
+  ['Guadeloupe', 'GP', 'GLP', '312'],
+  ['Guam', 'GU', 'GUM', '316'],
+  ['Guatemala', 'GT', 'GTM', '320'],
+  ['Guernsey', 'GG', 'GGY', '831'],
+  ['Guinea', 'GN', 'GIN', '324'],
+  ['Guinea-Bissau', 'GW', 'GNB', '624'],
+  ['Guyana', 'GY', 'GUY', '328'],
+  ['Haiti', 'HT', 'HTI', '332'],
+  ['Heard Island and McDonald Islands', 'HM', 'HMD', '334'],
+  ['Vatican City', 'VA', 'VAT', '336', ['Holy See', 'Vatican']],
+  ['Honduras', 'HN', 'HND', '340'],
+  ['Hong Kong', 'HK', 'HKG', '344', ['Hong Kong SAR, China', 'Hong Kong SAR']],
+  ['Hungary', 'HU', 'HUN', '348'],
+  ['Iceland', 'IS', 'ISL', '352'],
+  ['India', 'IN', 'IND', '356', ['Bharat']],
+  ['Indonesia', 'ID', 'IDN', '360'],
+  ['Iran', 'IR', 'IRN', '364', ['Iran, Islamic Rep.', 'Islamic Republic of Iran', 'Persia']],
+  ['Iraq', 'IQ', 'IRQ', '368'],
+  ['Ireland', 'IE', 'IRL', '372', ['Republic of Ireland', 'Eire']],
+  ['Isle of Man', 'IM', 'IMN', '833'],
+  ['Israel', 'IL', 'ISR', '376'],
+  ['Italy', 'IT', 'ITA', '380', ['Italia']],
+  ['Jamaica', 'JM', 'JAM', '388'],
+  ['Japan', 'JP', 'JPN', '392', ['Nippon']],
+  ['Jersey', 'JE', 'JEY', '832'],
+  ['Jordan', 'JO', 'JOR', '400'],
+  ['Kazakhstan', 'KZ', 'KAZ', '398'],
+  ['Kenya', 'KE', 'KEN', '404'],
+  ['Kiribati', 'KI', 'KIR', '296'],
+  [
+    'North Korea',
+    'KP',
+    'PRK',
+    '408',
+    [
+      'DPRK',
+      "Democratic People's Republic of Korea",
+      'Korea, Dem. Rep.',
+      "Korea, Dem. People's Rep.",
+    ],
+  ],
+  [
+    'South Korea',
+    'KR',
+    'KOR',
+    '410',
+    ['Korea', 'Republic of Korea', 'Korea, Republic of', 'Korea, Rep.', 'ROK'],
+  ],
+  ['Kosovo', 'XK', 'XKX', '', ['Republic of Kosovo']],
+  ['Kuwait', 'KW', 'KWT', '414'],
+  ['Kyrgyzstan', 'KG', 'KGZ', '417', ['Kyrgyz Republic']],
+  ['Laos', 'LA', 'LAO', '418', ['Lao PDR', "Lao People's Democratic Republic"]],
+  ['Latvia', 'LV', 'LVA', '428'],
+  ['Lebanon', 'LB', 'LBN', '422'],
+  ['Lesotho', 'LS', 'LSO', '426'],
+  ['Liberia', 'LR', 'LBR', '430'],
+  ['Libya', 'LY', 'LBY', '434'],
+  ['Liechtenstein', 'LI', 'LIE', '438'],
+  ['Lithuania', 'LT', 'LTU', '440'],
+  ['Luxembourg', 'LU', 'LUX', '442'],
+  ['Macao', 'MO', 'MAC', '446', ['Macau', 'Macao SAR, China', 'Macao SAR']],
+  ['Madagascar', 'MG', 'MDG', '450'],
+  ['Malawi', 'MW', 'MWI', '454'],
+  ['Malaysia', 'MY', 'MYS', '458'],
+  ['Maldives', 'MV', 'MDV', '462'],
+  ['Mali', 'ML', 'MLI', '466'],
+  ['Malta', 'MT', 'MLT', '470'],
+  ['Marshall Islands', 'MH', 'MHL', '584'],
+  ['Martinique', 'MQ', 'MTQ', '474'],
+  ['Mauritania', 'MR', 'MRT', '478'],
+  ['Mauritius', 'MU', 'MUS', '480'],
+  ['Mayotte', 'YT', 'MYT', '175'],
+  ['Mexico', 'MX', 'MEX', '484', ['México']],
+  ['Micronesia', 'FM', 'FSM', '583', ['Micronesia, Fed. Sts.', 'Federated States of Micronesia']],
+  ['Moldova', 'MD', 'MDA', '498', ['Republic of Moldova', 'Moldova, Republic of']],
+  ['Monaco', 'MC', 'MCO', '492'],
+  ['Mongolia', 'MN', 'MNG', '496'],
+  ['Montenegro', 'ME', 'MNE', '499'],
+  ['Montserrat', 'MS', 'MSR', '500'],
+  ['Morocco', 'MA', 'MAR', '504'],
+  ['Mozambique', 'MZ', 'MOZ', '508'],
+  ['Myanmar', 'MM', 'MMR', '104', ['Burma']],
+  ['Namibia', 'NA', 'NAM', '516'],
+  ['Nauru', 'NR', 'NRU', '520'],
+  ['Nepal', 'NP', 'NPL', '524'],
+  ['Netherlands', 'NL', 'NLD', '528', ['The Netherlands', 'Holland', 'Kingdom of the Netherlands']],
+  ['New Caledonia', 'NC', 'NCL', '540'],
+  ['New Zealand', 'NZ', 'NZL', '554', ['Aotearoa']],
+  ['Nicaragua', 'NI', 'NIC', '558'],
+  ['Niger', 'NE', 'NER', '562'],
+  ['Nigeria', 'NG', 'NGA', '566'],
+  ['Niue', 'NU', 'NIU', '570'],
+  ['Norfolk Island', 'NF', 'NFK', '574'],
+  ['Macedonia', 'MK', 'MKD', '807', ['North Macedonia', 'Republic of North Macedonia', 'FYROM']],
+  ['Northern Mariana Islands', 'MP', 'MNP', '580'],
+  ['Norway', 'NO', 'NOR', '578'],
+  ['Oman', 'OM', 'OMN', '512'],
+  ['Pakistan', 'PK', 'PAK', '586'],
+  ['Palau', 'PW', 'PLW', '585'],
+  [
+    'Palestine',
+    'PS',
+    'PSE',
+    '275',
+    ['State of Palestine', 'West Bank and Gaza', 'Palestinian Territories'],
+  ],
+  ['Panama', 'PA', 'PAN', '591'],
+  ['Papua New Guinea', 'PG', 'PNG', '598'],
+  ['Paraguay', 'PY', 'PRY', '600'],
+  ['Peru', 'PE', 'PER', '604'],
+  ['Philippines', 'PH', 'PHL', '608', ['The Philippines']],
+  ['Pitcairn Islands', 'PN', 'PCN', '612', ['Pitcairn']],
+  ['Poland', 'PL', 'POL', '616', ['Polska']],
+  ['Portugal', 'PT', 'PRT', '620'],
+  ['Puerto Rico', 'PR', 'PRI', '630'],
+  ['Qatar', 'QA', 'QAT', '634'],
+  ['Réunion', 'RE', 'REU', '638'],
+  ['Romania', 'RO', 'ROU', '642', ['Rumania']],
+  ['Russia', 'RU', 'RUS', '643', ['Russian Federation']],
+  ['Rwanda', 'RW', 'RWA', '646'],
+  ['Saint Barthélemy', 'BL', 'BLM', '652', ['St. Barthelemy']],
+  ['Saint Helena, Ascension and Tristan da Cunha', 'SH', 'SHN', '654', ['Saint Helena']],
+  ['Saint Kitts and Nevis', 'KN', 'KNA', '659', ['St. Kitts and Nevis']],
+  ['Saint Lucia', 'LC', 'LCA', '662', ['St. Lucia']],
+  ['Saint Martin', 'MF', 'MAF', '663', ['St. Martin (French part)']],
+  ['Saint Pierre and Miquelon', 'PM', 'SPM', '666'],
+  ['Saint Vincent and the Grenadines', 'VC', 'VCT', '670', ['St. Vincent and the Grenadines']],
+  ['Samoa', 'WS', 'WSM', '882'],
+  ['San Marino', 'SM', 'SMR', '674'],
+  ['São Tomé and Príncipe', 'ST', 'STP', '678', ['Sao Tome and Principe']],
+  ['Saudi Arabia', 'SA', 'SAU', '682', ['KSA', 'Kingdom of Saudi Arabia']],
+  ['Senegal', 'SN', 'SEN', '686'],
+  ['Serbia', 'RS', 'SRB', '688'],
+  ['Seychelles', 'SC', 'SYC', '690'],
+  ['Sierra Leone', 'SL', 'SLE', '694'],
+  ['Singapore', 'SG', 'SGP', '702'],
+  ['Sint Maarten', 'SX', 'SXM', '534', ['Sint Maarten (Dutch part)']],
+  ['Slovakia', 'SK', 'SVK', '703', ['Slovak Republic']],
+  ['Slovenia', 'SI', 'SVN', '705'],
+  ['Solomon Islands', 'SB', 'SLB', '090', ['Solomon Is.']],
+  ['Somalia', 'SO', 'SOM', '706'],
+  ['South Africa', 'ZA', 'ZAF', '710', ['RSA']],
+  ['South Georgia and the South Sandwich Islands', 'GS', 'SGS', '239', ['South Georgia']],
+  ['South Sudan', 'SS', 'SSD', '728', ['S. Sudan']],
+  ['Spain', 'ES', 'ESP', '724', ['España', 'Espana']],
+  ['Sri Lanka', 'LK', 'LKA', '144', ['Ceylon']],
+  ['Sudan', 'SD', 'SDN', '729'],
+  ['Suriname', 'SR', 'SUR', '740', ['Surinam']],
+  ['Svalbard and Jan Mayen', 'SJ', 'SJM', '744'],
+  ['Sweden', 'SE', 'SWE', '752'],
+  ['Switzerland', 'CH', 'CHE', '756', ['Swiss Confederation']],
+  ['Syria', 'SY', 'SYR', '760', ['Syrian Arab Republic']],
+  [
+    'Taiwan',
+    'TW',
+    'TWN',
+    '158',
+    ['Chinese Taipei', 'Taiwan, China', 'Republic of China', 'Taiwan, Province of China'],
+  ],
+  ['Tajikistan', 'TJ', 'TJK', '762'],
+  ['Tanzania', 'TZ', 'TZA', '834', ['United Republic of Tanzania', 'Tanzania, United Republic of']],
+  ['Thailand', 'TH', 'THA', '764', ['Siam']],
+  ['Timor-Leste', 'TL', 'TLS', '626', ['East Timor']],
+  ['Togo', 'TG', 'TGO', '768'],
+  ['Tokelau', 'TK', 'TKL', '772'],
+  ['Tonga', 'TO', 'TON', '776'],
+  ['Trinidad and Tobago', 'TT', 'TTO', '780', ['Trinidad']],
+  ['Tunisia', 'TN', 'TUN', '788'],
+  ['Turkey', 'TR', 'TUR', '792', ['Türkiye', 'Turkiye', 'Republic of Türkiye']],
+  ['Turkmenistan', 'TM', 'TKM', '795'],
+  ['Turks and Caicos Islands', 'TC', 'TCA', '796'],
+  ['Tuvalu', 'TV', 'TUV', '798'],
+  ['Uganda', 'UG', 'UGA', '800'],
+  ['Ukraine', 'UA', 'UKR', '804'],
+  ['United Arab Emirates', 'AE', 'ARE', '784', ['UAE', 'Emirates']],
+  [
+    'United Kingdom',
+    'GB',
+    'GBR',
+    '826',
+    ['UK', 'Great Britain', 'Britain', 'United Kingdom of Great Britain and Northern Ireland'],
+  ],
+  [
+    'United States of America',
+    'US',
+    'USA',
+    '840',
+    ['United States', 'America', 'U.S.', 'U.S.A.', 'United States (USA)'],
+  ],
+  ['United States Minor Outlying Islands', 'UM', 'UMI', '581'],
+  ['Uruguay', 'UY', 'URY', '858'],
+  ['Uzbekistan', 'UZ', 'UZB', '860'],
+  ['Vanuatu', 'VU', 'VUT', '548'],
+  [
+    'Venezuela',
+    'VE',
+    'VEN',
+    '862',
+    ['Venezuela, RB', 'Venezuela (Bolivarian Republic of)', 'Bolivarian Republic of Venezuela'],
+  ],
+  ['Vietnam', 'VN', 'VNM', '704', ['Viet Nam', 'Socialist Republic of Vietnam']],
+  ['British Virgin Islands', 'VG', 'VGB', '092', ['Virgin Islands, British']],
+  [
+    'United States Virgin Islands',
+    'VI',
+    'VIR',
+    '850',
+    ['Virgin Islands (U.S.)', 'US Virgin Islands'],
+  ],
+  ['Wallis and Futuna', 'WF', 'WLF', '876'],
+  ['Western Sahara', 'EH', 'ESH', '732', ['W. Sahara']],
+  ['Yemen', 'YE', 'YEM', '887', ['Yemen, Rep.', 'Republic of Yemen']],
+  ['Zambia', 'ZM', 'ZMB', '894'],
+  ['Zimbabwe', 'ZW', 'ZWE', '716'],
+];
+
+export const COUNTRIES: CountryInfo[] = COUNTRY_ENTRIES.map(
+  ([name, alpha2, alpha3, numeric, aliases = []]) => ({ name, alpha2, alpha3, numeric, aliases }),
+);
+
+// Accent-, case- and punctuation-insensitive form used for all name comparisons
+export function normalizeCountryName(name: string): string {
+  let normalized = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\bst\b\.?/g, 'saint')
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .trim();
+
+  // "Korea, Republic of" reads as "Republic of Korea"
+  const [head, ...rest] = normalized.split(',');
+  if (rest.length > 0) {
+    normalized = `${rest.join(' ')} ${head}`;
+  }
+
+  return normalized.replace(/,/g, ' ').replace(/^the /, '').replace(/\s+/g, ' ').trim();
+}
+
+const countriesByCode = new Map<string, CountryInfo>();
+const countriesByName = new Map<string, CountryInfo>();
+
+COUNTRIES.forEach((country) => {
+  [country.alpha2, country.alpha3, country.numeric]
+    .filter(Boolean)
+    .forEach((code) => countriesByCode.set(code.toUpperCase(), country));
+  [country.name, ...country.aliases].forEach((name) =>
+    countriesByName.set(normalizeCountryName(name), country),
+  );
+});
+
+export function findCountryByCode(code: string | number | null | undefined): CountryInfo | null {
+  if (code === null || code === undefined) return null;
+
+  const value = String(code).trim().toUpperCase();
+  if (!value) return null;
+
+  // Numeric codes may have lost their leading zeros in a spreadsheet ("4" for Afghanistan)
+  const key = /^\d+$/.test(value) ? value.padStart(3, '0') : value;
+  return countriesByCode.get(key) ?? null;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Names closer than this (1 = identical) are accepted as typos or spelling variants
+const FUZZY_MATCH_THRESHOLD = 0.85;
+
+export function findCountryByName(
+  name: string | null | undefined,
+  fuzzy = true,
+): CountryInfo | null {
+  if (!name) return null;
+
+  const normalized = normalizeCountryName(name);
+  if (!normalized) return null;
+
+  const exact = countriesByName.get(normalized);
+  if (exact || !fuzzy) return exact ?? null;
+
+  let best: CountryInfo | null = null;
+  let bestSimilarity = 0;
+  countriesByName.forEach((country, candidate) => {
+    const similarity =
+      1 - levenshtein(normalized, candidate) / Math.max(normalized.length, candidate.length);
+    if (similarity > bestSimilarity) {
+      best = country;
+      bestSimilarity = similarity;
+    }
+  });
+
+  return bestSimilarity >= FUZZY_MATCH_THRESHOLD ? best : null;
+}
+
+// Resolution order: a user override, the ISO column, the exact name, the name read as a code
+// ("USA"), and finally the closest spelling
+export function resolveCountry(
+  name: string,
+  code?: string | number | null,
+  overrides: Record<string, string> = {},
+): CountryInfo | null {
+  const override = overrides[name];
+  if (override) return findCountryByCode(override);
+
+  return (
+    findCountryByCode(code) ??
+    findCountryByName(name, false) ??
+    findCountryByCode(name) ??
+    findCountryByName(name)
+  );
+}
+
+// World map features carry the ISO numeric code as their id, except a few disputed areas
+// (Kosovo, N. Cyprus, Somaliland) which can only be matched by name
+export function getFeatureCountryCode(feature: {
+  id?: string | number;
+  properties?: { name?: string } | null;
+}): string | null {
+  const match = findCountryByCode(feature.id) ?? findCountryByName(feature.properties?.name, false);
+  return match?.alpha3 ?? null;
+}
+
+// UN M49 continental regions, used for regional averages. Antarctica and the uninhabited
+// southern territories are left out.
+const REGION_MEMBERS: Record<string, string> = {
+  Africa:
+    'DZA AGO BEN BWA IOT BFA BDI CPV CMR CAF TCD COM COG COD CIV DJI EGY GNQ ERI SWZ ' +
+    'ETH GAB GMB GHA GIN GNB KEN LSO LBR LBY MDG MWI MLI MRT MUS MYT MAR MOZ NAM NER ' +
+    'NGA REU RWA SHN STP SEN SYC SLE SOM ZAF SSD SDN TZA TGO TUN UGA ESH ZMB ZWE',
+  Americas:
+    'AIA ATG ARG ABW BHS BRB BLZ BMU BOL BES BRA VGB CAN CYM CHL COL CRI CUB CUW DMA ' +
+    'DOM ECU SLV FLK GUF GRL GRD GLP GTM GUY HTI HND JAM MTQ MEX MSR NIC PAN PRY PER ' +
+    'PRI BLM KNA LCA MAF SPM VCT SXM SUR TTO TCA USA VIR URY VEN',
+  Asia:
+    'AFG ARM AZE BHR BGD BTN BRN KHM CHN CYP GEO HKG IND IDN IRN IRQ ISR JPN JOR KAZ ' +
+    'KWT KGZ LAO LBN MAC MYS MDV MNG MMR NPL PRK OMN PAK PSE PHL QAT KOR SAU SGP LKA ' +
+    'SYR TWN TJK THA TLS TUR TKM ARE UZB VNM YEM',
+  Europe:
+    'ALA ALB AND AUT BLR BEL BIH BGR HRV CZE DNK EST FRO FIN FRA DEU GIB GRC GGY VAT ' +
+    'HUN ISL IRL IMN ITA JEY XKX LVA LIE LTU LUX MLT MDA MCO MNE NLD MKD NOR POL PRT ' +
+    'ROU RUS SMR SRB SVK SVN ESP SJM SWE CHE UKR GBR',
+  Oceania:
+    'ASM AUS CXR CCK COK FJI PYF GUM KIR MHL FSM NRU NCL NZL NIU NFK MNP PLW PNG PCN ' +
+    'WSM SLB TKL TON TUV UMI VUT WLF',
+};
+
+const REGION_BY_CODE = new Map(
+  Object.entries(REGION_MEMBERS).flatMap(([region, codes]) =>
+    codes.split(' ').map((code) => [code, region] as const),
+  ),
+);
+
+export function getCountryRegion(alpha3: string | null): string | null {
+  return alpha3 ? (REGION_BY_CODE.get(alpha3) ?? null) : null;
+}
@@ -0,0 +1,93 @@
+import * as d3 from 'd3';
+import type { CountryData, Sector } from '../types';
+
+export interface SectorStanding {
+  sector: Sector;
+  score: number;
+  // Position among the countries by this sector's weighted score, 1 being the best
+  rank: number;
+  globalMedian: number;
+  // Null when the country is in no peer group, or none of its peers has data
+  peerMedian: number | null;
+}
+
+export interface CountryNeighbour {
+  country: CountryData;
+  // Euclidean distance between the normalized sector values
+  distance: number;
+}
+
+export interface CountryProfile {
+  country: CountryData;
+  // Countries in the edition, the N in "rank out of N"
+  total: number;
+  sectors: SectorStanding[];
+  strongest: SectorStanding | null;
+  weakest: SectorStanding | null;
+  neighbours: CountryNeighbour[];
+}
+
+const NEIGHBOUR_COUNT = 5;
+
+// Ties share a rank, as in the overall ranking
+function rankOf(value: number, values: number[]): number {
+  return 1 + values.filter((other) => other > value).length;
+}
+
+// Distance over the sectors both countries have a value for, scaled to the full sector count so
+// countries with gaps are not pulled closer
+function profileDistance(a: CountryData, b: CountryData, sectors: Sector[]): number | null {
+  const shared = sectors.filter(
+    (sector) =>
+      a.normalizedValues[sector.key] !== undefined && b.normalizedValues[sector.key] !== undefined,
+  );
+  if (shared.length === 0) return null;
+  const sum = d3.sum(
+    shared,
+    (sector) => (a.normalizedValues[sector.key] - b.normalizedValues[sector.key]) ** 2,
+  );
+  return Math.sqrt((sum * sectors.length) / shared.length);
+}
+
+export function buildCountryProfile(
+  country: CountryData,
+  data: CountryData[],
+  sectors: Sector[],
+  peers: CountryData[],
+): CountryProfile {
+  const standings = sectors.map((sector) => {
+    const getScore = (d: CountryData) => d.sectorScores[sector.key] ?? 0;
+    const score = getScore(country);
+    return {
+      sector,
+      score,
+      rank: rankOf(
+        score,
+        data.map((d) => getScore(d)),
+      ),
+      globalMedian: d3.median(data, getScore) ?? 0,
+      peerMedian: peers.length > 0 ? (d3.median(peers, getScore) ?? null) : null,
+    };
+  });
+
+  // Strongest and weakest go by rank rather than score, since the weights scale the scores
+  const byRank = [...standings].sort((a, b) => a.rank - b.rank);
+
+  const neighbours = data
+    .filter((other) => other.country !== country.country)
+    .flatMap((other) => {
+      const distance = profileDistance(country, other, sectors);
+      return distance === null ? [] : [{ country: other, distance }];
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, NEIGHBOUR_COUNT);
+
+  return {
+    country,
+    total: data.length,
+    sectors: standings,
+    strongest: byRank[0] ?? null,
+    weakest: byRank.length > 1 ? byRank[byRank.length - 1] : null,
+    neighbours,
+  };
+}
@@ -0,0 +1,76 @@
+// Population in millions and GDP in billions of current US dollars for 2023, rounded (World
+// Bank World Development Indicators; Taiwan from the IMF). Covers the members of the built-in
+// groups and the countries in the bundled index; group averages weighted by population or GDP
+// leave out countries that are not listed or have no figure.
+const COUNTRY_STATS: Record<string, [population: number, gdp: number | null]> = {
+  ALB: [2.7, 23],
+  ARE: [9.5, 504],
+  AUS: [26.6, 1724],
+  AUT: [9.1, 516],
+  BEL: [11.8, 632],
+  BGR: [6.4, 102],
+  BRA: [216.4, 2174],
+  BRN: [0.45, 15],
+  CAN: [40.1, 2140],
+  CHN: [1410.7, 17795],
+  CYP: [1.3, 32],
+  CZE: [10.9, 343],
+  DEU: [84.5, 4456],
+  DNK: [5.9, 404],
+  ESP: [48.4, 1620],
+  EST: [1.4, 41],
+  FIN: [5.6, 300],
+  FRA: [68.2, 3031],
+  GBR: [68.4, 3340],
+  GRC: [10.4, 243],
+  HRV: [3.9, 82],
+  HUN: [9.6, 212],
+  IDN: [277.5, 1371],
+  IND: [1428.6, 3550],
+  IRL: [5.3, 545],
+  IRN: [89.2, 404],
+  ISL: [0.39, 31],
+  ISR: [9.8, 514],
+  ITA: [59.0, 2255],
+  JPN: [124.5, 4213],
+  KHM: [16.9, 31],
+  KOR: [51.7, 1713],
+  LAO: [7.7, 15],
+  LTU: [2.9, 79],
+  LUX: [0.67, 86],
+  LVA: [1.9, 43],
+  MKD: [1.8, 15],
+  MLT: [0.56, 22],
+  MMR: [54.6, 64],
+  MNE: [0.62, 7.4],
+  MYS: [34.3, 400],
+  NLD: [17.9, 1118],
+  NOR: [5.5, 486],
+  NZL: [5.2, 253],
+  PHL: [117.3, 437],
+  POL: [36.7, 809],
+  PRK: [26.2, null],
+  PRT: [10.5, 287],
+  ROU: [19.1, 351],
+  RUS: [143.8, 2021],
+  SAU: [36.9, 1068],
+  SGP: [5.9, 501],
+  SVK: [5.4, 133],
+  SVN: [2.1, 69],
+  SWE: [10.5, 584],
+  THA: [71.8, 515],
+  TLS: [1.4, 2.1],
+  TUR: [85.3, 1108],
+  TWN: [23.4, 756],
+  UKR: [37.7, 179],
+  USA: [334.9, 27361],
+  VNM: [98.9, 430],
+};
+
+export function getPopulation(alpha3: string | null): number | null {
+  return alpha3 ? (COUNTRY_STATS[alpha3]?.[0] ?? null) : null;
+}
+
+export function getGdp(alpha3: string | null): number | null {
+  return alpha3 ? (COUNTRY_STATS[alpha3]?.[1] ?? null) : null;
+}
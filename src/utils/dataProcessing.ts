@@ -1,89 +1,133 @@
-import * as XLSX from 'xlsx';
-
-import type { CountryData, SectorWeights } from '../types';
+import type {
+  AggregationMethod,
+  CountryData,
+  ProcessingOptions,
+  SectorWeights,
+  YearData,
+  YearSheet,
+} from '../types';
 import { validateAndProcessData, standardizeCountryNames } from './dataValidation';
-
-export function processExcelData(rawData: any[], weights: SectorWeights): CountryData[] {
+import { DEFAULT_IMPUTATION, imputeMissingValues } from './imputation';
+import { DEFAULT_AGGREGATION, aggregateScores } from './aggregation';
+import { DEFAULT_NORMALIZATION, normalizeSectorValues } from './normalization';
+
+export function processExcelData(
+  rawData: any[],
+  weights: SectorWeights,
+  options: ProcessingOptions = {},
+): CountryData[] {
   try {
-    // First validate and process the raw data
-    const { data: validatedData, validation } = validateAndProcessData(rawData);
-
-    if (!validation.isValid) {
-      if (validation.errors.length > 0) {
-        console.log('Data validation failed:', validation.errors);
-      }
-      if (validation.warnings.length > 0) {
-        console.log('Validation warnings:', validation.warnings);
-      }
-      return [];
-    }
-
-    // Standardize country names
-    const standardizedData = standardizeCountryNames(validatedData);
-
-    // Apply weights and calculate scores
-    return standardizedData.map((country) => {
-      const sectorScores = {
-        ai: parseFloat(country.ai) * weights.ai,
-        quantum: parseFloat(country.quantum) * weights.quantum,
-        semiconductors: parseFloat(country.semiconductors) * weights.semiconductors,
-        biotech: parseFloat(country.biotech) * weights.biotech,
-        space: parseFloat(country.space) * weights.space,
-        fintech: parseFloat(country.fintech) * weights.fintech,
-      };
-
-      const totalScore = Object.values(sectorScores).reduce((sum, score) => sum + score, 0);
-
-      return {
-        ...country,
-        totalScore,
-        sectorScores,
-      };
-    });
+    return scoreCountryData(
+      prepareCountryData(rawData, Object.keys(weights), options),
+      weights,
+      options.aggregation,
+    );
   } catch (error) {
     console.log('Error processing data:', error);
     return [];
   }
 }
 
-export function calculateColorIntensity(value: number, max: number): string {
-  const intensity = Math.max(0, Math.min(0.9, value / max));
-  return `rgba(34, 197, 94, ${intensity})`;
+// Everything before weighting: validation, country matching, imputation and normalization. The
+// result does not depend on the weight values, so it can be scored many times.
+export function prepareCountryData(
+  rawData: any[],
+  sectorKeys: string[],
+  options: ProcessingOptions = {},
+): CountryData[] {
+  const {
+    skipInvalidRows = false,
+    countryOverrides = {},
+    normalization = DEFAULT_NORMALIZATION,
+    imputation = DEFAULT_IMPUTATION,
+  } = options;
+
+  // First validate and process the raw data; rows that failed validation are already left out
+  const { data: validatedData, validation } = validateAndProcessData(
+    rawData,
+    undefined,
+    countryOverrides,
+  );
+
+  // Problems are surfaced through validateYearSheets, here they only decide whether to continue
+  const canSkip = skipInvalidRows && validation.errors.every((issue) => issue.rowLevel);
+  if (!validation.isValid && !canSkip) {
+    return [];
+  }
+
+  // Standardize country names
+  const standardizedData = standardizeCountryNames(validatedData, countryOverrides);
+
+  // Fill in missing cells; regional means rely on the ISO codes from standardization
+  const imputedData = imputeMissingValues(standardizedData, sectorKeys, imputation);
+
+  // Put the sectors on a comparable scale so the weights decide their influence
+  return normalizeSectorValues(imputedData, sectorKeys, normalization);
 }
 
-export function parseXlsxData(buffer: ArrayBuffer) {
-  const workbook = XLSX.read(buffer, { type: 'array' });
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
+// Applies the weights to prepared data, combines the sectors and ranks the countries
+export function scoreCountryData(
+  data: CountryData[],
+  weights: SectorWeights,
+  aggregation: AggregationMethod = DEFAULT_AGGREGATION,
+): CountryData[] {
+  return rankByTotalScore(aggregateScores(data, weights, aggregation));
+}
 
-  // Get the range of the worksheet
-  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+// Countries with equal totals share a rank (1, 2, 2, 4)
+export function rankByTotalScore(data: CountryData[]): CountryData[] {
+  const sorted = [...data].sort((a, b) => b.totalScore - a.totalScore);
+  const ranks = new Map<string, number>();
+
+  sorted.forEach((country, index) => {
+    const previous = sorted[index - 1];
+    const rank =
+      previous && previous.totalScore === country.totalScore
+        ? ranks.get(previous.country)!
+        : index + 1;
+    ranks.set(country.country, rank);
+  });
+
+  return data.map((country) => ({
+    ...country,
+    rank: ranks.get(country.country)!,
+  }));
+}
 
-  // Extract headers (sectors) from the first row
-  const headers: string[] = [];
-  for (let C = range.s.c + 1; C <= range.e.c; C++) {
-    const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: C })];
-    headers.push(cell?.v || '');
-  }
+export function processYearSheets(
+  sheets: YearSheet[],
+  weights: SectorWeights,
+  options: ProcessingOptions = {},
+): YearData[] {
+  const years: YearData[] = [];
 
-  // Process each row into an object
-  const jsonData = [];
-  for (let R = range.s.r + 1; R <= range.e.r; R++) {
-    const countryCell = worksheet[XLSX.utils.encode_cell({ r: R, c: range.s.c })];
-    if (!countryCell) continue;
+  sheets.forEach((sheet) => {
+    const previous = years[years.length - 1];
+    const previousRanks = new Map(previous?.data.map((d) => [d.country, d.rank]));
 
-    const row: any = {
-      Country: countryCell.v,
-    };
+    const data = processExcelData(sheet.rows, weights, options).map((country) => {
+      const previousRank = previousRanks.get(country.country);
+      return {
+        ...country,
+        rankChange: previousRank === undefined ? null : previousRank - country.rank,
+      };
+    });
 
-    // Get values for each sector
-    headers.forEach((header, index) => {
-      const cell = worksheet[XLSX.utils.encode_cell({ r: R, c: index + 1 })];
-      row[header] = cell ? Number(cell.v) : 0;
+    years.push({
+      year: sheet.year,
+      previousYear: previous?.year ?? null,
+      data,
     });
+  });
 
-    jsonData.push(row);
-  }
+  return years;
+}
+
+export function describeRankChange(country: CountryData, previousYear: string | null): string {
+  if (!previousYear) return '';
+  if (country.rankChange === null) return `new since ${previousYear}`;
+  if (country.rankChange === 0) return `no change since ${previousYear}`;
 
-  return jsonData;
+  const arrow = country.rankChange > 0 ? '▲' : '▼';
+  return `${arrow}${Math.abs(country.rankChange)} since ${previousYear}`;
 }
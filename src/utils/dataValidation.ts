@@ -1,98 +1,124 @@
-import type { CountryData } from '../types';
+import type {
+  CountryData,
+  Sector,
+  SectorWeights,
+  SheetLayout,
+  ValidationIssue,
+  ValidationReport,
+  YearSheet,
+} from '../types';
+import { isoCodeColumns, missingValueMarkers } from './constants';
+import { findCountryByCode, resolveCountry } from './countries';
+import { buildSectorRegistry } from './sectors';
 
 interface ValidationResult {
   isValid: boolean;
-  errors: string[];
-  warnings: string[];
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
 }
 
 interface ProcessedData {
   data: CountryData[];
+  sectors: Sector[];
   validation: ValidationResult;
 }
 
-const REQUIRED_COLUMNS = [
-  'Country',
-  'AI',
-  'Quantum',
-  'Semiconductors',
-  'Biotech',
-  'Space',
-  'Fintech',
-];
-
-const COLUMN_MAPPINGS = {
-  Country: 'country',
-  AI: 'ai',
-  Quantum: 'quantum',
-  Semiconductors: 'semiconductors',
-  Biotech: 'biotech',
-  Space: 'space',
-  Fintech: 'fintech',
-};
-
-const SECTOR_WEIGHTS = {
-  ai: 0.2,
-  quantum: 0.1,
-  semiconductors: 0.2,
-  biotech: 0.2,
-  space: 0.2,
-  fintech: 0.1,
-};
-
-// Map of country names to their official names in the world map data
-const COUNTRY_NAME_MAPPINGS: { [key: string]: string } = {
-  USA: 'United States of America',
-  US: 'United States of America',
-  'United States': 'United States of America',
-  UK: 'United Kingdom',
-  PRC: 'China',
-  "People's Republic of China": 'China',
-  Korea: 'South Korea',
-  'Republic of Korea': 'South Korea',
-  'Korea, Republic of': 'South Korea',
-  'Korea, Dem. Rep.': 'North Korea',
-  "Democratic People's Republic of Korea": 'North Korea',
-  DPRK: 'North Korea',
-  'Russian Federation': 'Russia',
-  'Czech Republic': 'Czechia',
-  UAE: 'United Arab Emirates',
-};
-
-export function validateAndProcessData(rawData: any[]): ProcessedData {
+const REQUIRED_COLUMNS = ['Country'];
+
+function isMissingValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value !== 'string') return false;
+  const text = value.trim().toLowerCase();
+  return text === '' || missingValueMarkers.includes(text);
+}
+
+// Keys of every row, in the order they first appear. JSON records each carry their own keys, so
+// the first row alone can miss a column.
+function getColumns(rows: any[]): string[] {
+  return [...new Set(rows.flatMap((row) => Object.keys(row || {})))];
+}
+
+// Overrides take part in matching, so names the user matched by hand count as duplicates too
+export function validateAndProcessData(
+  rawData: any[],
+  layout?: SheetLayout,
+  overrides: Record<string, string> = {},
+): ProcessedData {
   const validation: ValidationResult = {
     isValid: true,
     errors: [],
     warnings: [],
   };
 
+  const sheet = layout?.sheetName ?? null;
+  const headerRow = layout?.headerRow ?? 1;
+
+  // Rows without a layout are assumed to start right below a header in row 1
+  const getRowNumber = (index: number) => layout?.rowNumbers[index] ?? headerRow + index + 1;
+
+  // Builds an issue pointing at a spreadsheet cell
+  const createIssue = (
+    severity: ValidationIssue['severity'],
+    message: string,
+    position: { index?: number; column?: string; value?: unknown } = {},
+  ): ValidationIssue => {
+    const row = position.index === undefined ? headerRow : getRowNumber(position.index);
+    const columnLetter = position.column ? (layout?.columnLetters[position.column] ?? null) : null;
+
+    return {
+      severity,
+      message,
+      sheet,
+      row,
+      column: position.column ?? null,
+      cell: columnLetter ? `${columnLetter}${row}` : null,
+      value: position.value,
+      rowLevel: position.index !== undefined,
+    };
+  };
+
   // Check if data is empty
   if (!rawData || rawData.length === 0) {
     validation.isValid = false;
-    validation.errors.push('No data provided');
-    return { data: [], validation };
-  }
-
-  // Log the first row to see the actual column names
-  if (rawData[0]) {
-    console.log('First row:', rawData[0]);
+    validation.errors.push(createIssue('error', 'No data provided'));
+    return { data: [], sectors: [], validation };
   }
 
   // Check required columns
-  const columns = Object.keys(rawData[0] || {});
+  const columns = getColumns(rawData);
   const missingColumns = REQUIRED_COLUMNS.filter((col) => !columns.includes(col));
 
   if (missingColumns.length > 0) {
     validation.isValid = false;
-    validation.errors.push(`Missing required columns: ${missingColumns.join(', ')}`);
-    console.log('Available columns:', columns);
-    console.log('Missing columns:', missingColumns);
-    return { data: [], validation };
+    validation.errors.push(
+      createIssue('error', `Missing required columns: ${missingColumns.join(', ')}`, {
+        value: columns.join(', '),
+      }),
+    );
+    return { data: [], sectors: [], validation };
+  }
+
+  // An optional ISO code column takes precedence over the name when matching countries
+  const isoColumn =
+    columns.find((column) =>
+      isoCodeColumns.some((isoColumn) => isoColumn.toLowerCase() === column.trim().toLowerCase()),
+    ) ?? null;
+
+  // Every remaining header column is a sector
+  const sectors = buildSectorRegistry(columns);
+
+  if (sectors.length === 0) {
+    validation.isValid = false;
+    validation.errors.push(
+      createIssue('error', 'No sector columns found next to the Country column'),
+    );
+    return { data: [], sectors, validation };
   }
 
   // Process and validate each row
   const processedData: CountryData[] = [];
-  const countrySet = new Set<string>();
+  // Row index of each country seen so far, by ISO code or by name when it has none
+  const countryRows = new Map<string, number>();
 
   rawData.forEach((row, index) => {
     // Skip empty rows
@@ -100,49 +126,96 @@ export function validateAndProcessData(rawData: any[]): ProcessedData {
       return;
     }
 
-    // Map Excel column names to our internal names
-    const mappedRow = Object.entries(COLUMN_MAPPINGS).reduce((acc, [excelCol, internalCol]) => {
-      acc[internalCol] = row[excelCol];
-      return acc;
-    }, {} as any);
+    const countryName = row.Country;
 
     // Validate country name
-    if (!mappedRow.country || typeof mappedRow.country !== 'string') {
-      validation.errors.push(`Invalid country name at row ${index + 1}`);
+    if (!countryName || typeof countryName !== 'string') {
+      validation.errors.push(
+        createIssue('error', 'Invalid country name', {
+          index,
+          column: 'Country',
+          value: countryName,
+        }),
+      );
       return;
     }
 
-    // Check for duplicate countries
-    if (countrySet.has(mappedRow.country)) {
-      validation.warnings.push(`Duplicate country found: ${mappedRow.country}`);
+    const isoValue = isoColumn ? row[isoColumn] : null;
+    const countryCode = isMissingValue(isoValue) ? null : String(isoValue).trim();
+    if (countryCode && !findCountryByCode(countryCode)) {
+      validation.warnings.push(
+        createIssue('warning', `Unknown ISO code for ${countryName}, matching by name instead`, {
+          index,
+          column: isoColumn!,
+          value: isoValue,
+        }),
+      );
+    }
+
+    // Check for duplicate countries after matching, since two names can be the same country
+    // (Turkey and Türkiye) and would overwrite each other further on
+    const match = resolveCountry(countryName.trim(), countryCode, overrides);
+    const identity = match?.alpha3 ?? countryName.trim();
+    const firstIndex = countryRows.get(identity);
+    if (firstIndex !== undefined) {
+      const firstName = rawData[firstIndex].Country;
+      validation.warnings.push(
+        createIssue(
+          'warning',
+          `Duplicate country found: ${countryName} (row ${getRowNumber(index)}) is the same country as ${firstName} (row ${getRowNumber(firstIndex)}), row skipped`,
+          {
+            index,
+            column: 'Country',
+            value: countryName,
+          },
+        ),
+      );
       return;
     }
-    countrySet.add(mappedRow.country);
+    countryRows.set(identity, index);
 
-    // Validate and normalize sector values
+    // Validate and normalize sector values. Missing cells are left out here and filled in by
+    // the imputation step, so a gap in one sector does not drop the country.
     const sectorScores: { [key: string]: number } = {};
     let hasInvalidScore = false;
 
-    Object.entries(SECTOR_WEIGHTS).forEach(([sector, weight]) => {
-      const value = parseFloat(mappedRow[sector]);
+    sectors.forEach((sector) => {
+      const rawValue = row[sector.name];
+      if (isMissingValue(rawValue)) return;
+
+      const value = typeof rawValue === 'number' ? rawValue : Number(String(rawValue).trim());
+      const position = { index, column: sector.name, value: rawValue };
 
       if (isNaN(value)) {
-        validation.errors.push(`Invalid ${sector} value for ${mappedRow.country}`);
-        hasInvalidScore = true;
+        validation.warnings.push(
+          createIssue(
+            'warning',
+            `Invalid ${sector.name} value for ${countryName}, treated as missing`,
+            position,
+          ),
+        );
         return;
       }
 
       if (value < 0) {
-        validation.errors.push(`Negative ${sector} value for ${mappedRow.country}`);
+        validation.errors.push(
+          createIssue('error', `Negative ${sector.name} value for ${countryName}`, position),
+        );
         hasInvalidScore = true;
         return;
       }
 
       if (value > 1) {
-        validation.warnings.push(`${sector} value > 1 for ${mappedRow.country}`);
+        validation.warnings.push(
+          createIssue(
+            'warning',
+            `${sector.name} value > 1 for ${countryName}; pick a normalization method to rescale it`,
+            position,
+          ),
+        );
       }
 
-      sectorScores[sector] = value;
+      sectorScores[sector.key] = value;
     });
 
     if (hasInvalidScore) {
@@ -154,15 +227,17 @@ export function validateAndProcessData(rawData: any[]): ProcessedData {
 
     // Create processed country data
     const countryData: CountryData = {
-      country: mappedRow.country.trim(),
-      ai: mappedRow.ai,
-      quantum: mappedRow.quantum,
-      semiconductors: mappedRow.semiconductors,
-      biotech: mappedRow.biotech,
-      space: mappedRow.space,
-      fintech: mappedRow.fintech,
+      country: countryName.trim(),
+      sourceName: countryName.trim(),
+      // Raw ISO column value until standardizeCountryNames resolves it
+      countryCode,
+      sectorValues: { ...sectorScores },
+      imputedSectors: {},
+      normalizedValues: { ...sectorScores },
       totalScore,
       sectorScores,
+      rank: 0,
+      rankChange: null,
     };
 
     processedData.push(countryData);
@@ -175,18 +250,53 @@ export function validateAndProcessData(rawData: any[]): ProcessedData {
 
   return {
     data: processedData,
+    sectors,
     validation,
   };
 }
 
-export function standardizeCountryNames(data: CountryData[]): CountryData[] {
-  return data.map((item) => ({
-    ...item,
-    country: COUNTRY_NAME_MAPPINGS[item.country] || item.country,
-  }));
+// Validates every edition up front so problems can be reported before anything is drawn
+export function validateYearSheets(sheets: YearSheet[]): ValidationReport {
+  const results = sheets.map((sheet) => validateAndProcessData(sheet.rows, sheet.layout));
+  const issues = results.flatMap(({ validation }) =>
+    [...validation.errors, ...validation.warnings].sort((a, b) => (a.row ?? 0) - (b.row ?? 0)),
+  );
+  const errors = issues.filter((issue) => issue.severity === 'error');
+
+  return {
+    issues,
+    hasErrors: errors.length > 0,
+    // Bad rows can only be skipped when the sheet structure itself is fine and rows remain
+    canSkipInvalidRows:
+      errors.length > 0 &&
+      errors.every((issue) => issue.rowLevel) &&
+      results.every(({ data }) => data.length > 0),
+    emptyYears: sheets.filter((_, i) => results[i].data.length === 0).map((sheet) => sheet.year),
+  };
+}
+
+// Matches each country to the ISO registry so names agree with the map geometry. Rows that
+// cannot be matched keep their name and get a null code; the UI lists them for manual resolution.
+export function standardizeCountryNames(
+  data: CountryData[],
+  overrides: Record<string, string> = {},
+): CountryData[] {
+  return data.map((item) => {
+    const match = resolveCountry(item.sourceName, item.countryCode, overrides);
+    return {
+      ...item,
+      country: match?.name ?? item.sourceName,
+      countryCode: match?.alpha3 ?? null,
+    };
+  });
+}
+
+// Union of the columns of every sheet, in the order they first appear
+export function extractSectors(rowSets: any[][]): Sector[] {
+  return buildSectorRegistry(rowSets.flatMap(getColumns));
 }
 
-export function validateSectorWeights(data: CountryData[]): boolean {
-  const totalWeight = Object.values(SECTOR_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+export function validateSectorWeights(weights: SectorWeights): boolean {
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
   return Math.abs(totalWeight - 1) < 0.0001; // Account for floating-point precision
 }
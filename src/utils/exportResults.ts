@@ -0,0 +1,84 @@
+import type {
+  AggregationMethod,
+  CountryData,
+  NormalizationSettings,
+  Sector,
+  SectorWeights,
+} from '../types';
+import { getTotalScoreLabel, isAdditiveAggregation } from './aggregation';
+import { getImputationLabel } from './imputation';
+import { getNormalizationLabel, getSectorNormalization } from './normalization';
+
+export interface ExportSettings {
+  sectors: Sector[];
+  weights: SectorWeights;
+  normalization: NormalizationSettings;
+  aggregation: AggregationMethod;
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Borda scores weight points rather than values, and only additive methods sum the columns
+function getWeightedColumnLabel(sector: Sector, weight: number, method: AggregationMethod): string {
+  const share = `${Math.round(weight * 100)}%`;
+  if (method === 'borda') return `${sector.name} weighted Borda points (${share})`;
+  if (!isAdditiveAggregation(method)) return `${sector.name} weighted (${share}, not summed)`;
+  return `${sector.name} weighted (${share})`;
+}
+
+// Column headers carry the method and weight of each sector so the file explains how the
+// composite was built, while staying a plain table that spreadsheet tools open as is
+export function buildResultsCsv(data: CountryData[], settings: ExportSettings): string {
+  const { sectors, weights, normalization, aggregation } = settings;
+
+  const header = [
+    'Rank',
+    'Country',
+    'ISO3',
+    ...sectors.flatMap((sector) => [
+      `${sector.name} raw`,
+      `${sector.name} normalized (${getNormalizationLabel(
+        getSectorNormalization(normalization, sector.key),
+      )})`,
+      getWeightedColumnLabel(sector, weights[sector.key] ?? 0, aggregation),
+    ]),
+    getTotalScoreLabel(aggregation),
+    'Missing values',
+  ];
+
+  const rows = [...data]
+    .sort((a, b) => a.rank - b.rank)
+    .map((country) => [
+      country.rank,
+      country.country,
+      country.countryCode,
+      ...sectors.flatMap((sector) => [
+        // Raw columns stay empty where the file had no value
+        country.imputedSectors[sector.key] ? null : (country.sectorValues[sector.key] ?? null),
+        country.normalizedValues[sector.key] ?? null,
+        country.sectorScores[sector.key] ?? null,
+      ]),
+      country.totalScore,
+      sectors
+        .filter((sector) => country.imputedSectors[sector.key])
+        .map(
+          (sector) => `${sector.name}: ${getImputationLabel(country.imputedSectors[sector.key])}`,
+        )
+        .join('; '),
+    ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\n');
+}
+
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
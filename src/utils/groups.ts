@@ -0,0 +1,172 @@
+import * as d3 from 'd3';
+import type { CountryData, CountryGroup, GroupAggregation, GroupScore } from '../types';
+import { getGdp, getPopulation } from './countryStats';
+
+export interface GroupAggregationInfo {
+  value: GroupAggregation;
+  label: string;
+  description: string;
+}
+
+export const GROUP_AGGREGATIONS: GroupAggregationInfo[] = [
+  {
+    value: 'mean',
+    label: 'Mean',
+    description: 'Every member counts the same.',
+  },
+  {
+    value: 'population',
+    label: 'Population-weighted mean',
+    description: 'Members count in proportion to their population.',
+  },
+  {
+    value: 'gdp',
+    label: 'GDP-weighted mean',
+    description: 'Members count in proportion to their GDP.',
+  },
+  {
+    value: 'best',
+    label: 'Best member',
+    description: 'The group takes the scores of its highest-scoring member.',
+  },
+];
+
+export const DEFAULT_GROUP_AGGREGATION: GroupAggregation = 'mean';
+
+// Membership as of 2025; Timor-Leste joined ASEAN in October 2025
+export const BUILT_IN_GROUPS: CountryGroup[] = [
+  {
+    id: 'eu',
+    name: 'EU',
+    color: '#2B6CB0',
+    isBuiltIn: true,
+    members: (
+      'AUT BEL BGR HRV CYP CZE DNK EST FIN FRA DEU GRC HUN IRL ITA LVA LTU LUX MLT NLD POL ' +
+      'PRT ROU SVK SVN ESP SWE'
+    ).split(' '),
+  },
+  {
+    id: 'g7',
+    name: 'G7',
+    color: '#C53030',
+    isBuiltIn: true,
+    members: 'CAN FRA DEU ITA JPN GBR USA'.split(' '),
+  },
+  {
+    id: 'quad',
+    name: 'Quad',
+    color: '#D69E2E',
+    isBuiltIn: true,
+    members: 'AUS IND JPN USA'.split(' '),
+  },
+  {
+    id: 'asean',
+    name: 'ASEAN',
+    color: '#2F855A',
+    isBuiltIn: true,
+    members: 'BRN KHM IDN LAO MYS MMR PHL SGP THA TLS VNM'.split(' '),
+  },
+  {
+    id: 'nato',
+    name: 'NATO',
+    color: '#553C9A',
+    isBuiltIn: true,
+    members: (
+      'ALB BEL BGR CAN HRV CZE DNK EST FIN FRA DEU GRC HUN ISL ITA LVA LTU LUX MNE NLD MKD ' +
+      'NOR POL PRT ROU SVK SVN ESP SWE TUR GBR USA'
+    ).split(' '),
+  },
+];
+
+// Outline colors handed out to custom groups in the order they are created
+const GROUP_COLORS = ['#DD6B20', '#319795', '#B83280', '#4C51BF', '#718096', '#975A16'];
+
+export function createGroupId(): string {
+  return `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getNextGroupColor(groups: CountryGroup[]): string {
+  const used = new Set(groups.map((group) => group.color));
+  return (
+    GROUP_COLORS.find((color) => !used.has(color)) ??
+    GROUP_COLORS[groups.length % GROUP_COLORS.length]
+  );
+}
+
+export function filterByGroup(data: CountryData[], group: CountryGroup | null): CountryData[] {
+  if (!group) return data;
+  const members = new Set(group.members);
+  return data.filter((country) => country.countryCode && members.has(country.countryCode));
+}
+
+function getMemberWeight(country: CountryData, method: GroupAggregation): number | null {
+  switch (method) {
+    case 'mean':
+    case 'best':
+      return 1;
+    case 'population':
+      return getPopulation(country.countryCode);
+    case 'gdp':
+      return getGdp(country.countryCode);
+  }
+}
+
+// Scores of the group's members in the edition, combined with the chosen method. Null when no
+// member is in the edition, or none has the figure a weighted mean needs.
+export function scoreGroup(
+  group: CountryGroup,
+  data: CountryData[],
+  method: GroupAggregation,
+): GroupScore | null {
+  const members = filterByGroup(data, group);
+  const counted = members.filter((country) => (getMemberWeight(country, method) ?? 0) > 0);
+  if (counted.length === 0) return null;
+
+  let totalScore: number;
+  let sectorScores: Record<string, number>;
+  let bestMember: string | null = null;
+
+  if (method === 'best') {
+    const best = d3.greatest(counted, (country) => country.totalScore)!;
+    totalScore = best.totalScore;
+    sectorScores = { ...best.sectorScores };
+    bestMember = best.country;
+  } else {
+    const weights = counted.map((country) => getMemberWeight(country, method)!);
+    const totalWeight = d3.sum(weights);
+    const average = (value: (country: CountryData) => number) =>
+      d3.sum(counted, (country, i) => value(country) * weights[i]) / totalWeight;
+
+    totalScore = average((country) => country.totalScore);
+    sectorScores = Object.fromEntries(
+      Object.keys(counted[0].sectorScores).map((key) => [
+        key,
+        average((country) => country.sectorScores[key] ?? 0),
+      ]),
+    );
+  }
+
+  return {
+    group,
+    totalScore,
+    sectorScores,
+    members,
+    unweightedMembers: members.filter((country) => !counted.includes(country)),
+    bestMember,
+    rank: 1 + data.filter((country) => country.totalScore > totalScore).length,
+  };
+}
+
+export function scoreGroups(
+  groups: CountryGroup[],
+  data: CountryData[],
+  method: GroupAggregation,
+): GroupScore[] {
+  return groups
+    .map((group) => scoreGroup(group, data, method))
+    .filter((score): score is GroupScore => score !== null);
+}
+
+export function getGroupAggregationInfo(method: GroupAggregation): GroupAggregationInfo {
+  return GROUP_AGGREGATIONS.find((info) => info.value === method) ?? GROUP_AGGREGATIONS[0];
+}
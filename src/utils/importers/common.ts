@@ -0,0 +1,30 @@
+import * as XLSX from 'xlsx';
+
+export function extractYear(label: string): string | null {
+  return label.match(/(?<!\d)(19|20)\d{2}(?!\d)/)?.[0] ?? null;
+}
+
+// Edition label for formats that carry a single edition: the year in the file name, if any
+export function getFileLabel(fileName: string): string {
+  return extractYear(fileName) ?? fileName.replace(/\.[^.]+$/, '');
+}
+
+export function toColumnLetter(index: number): string {
+  return XLSX.utils.encode_col(index);
+}
+
+// Text cells from CSV or JSON become numbers when they look like one, accepting a decimal comma
+// ("0,45") as exported by European locales. Empty cells are missing (null); anything else is
+// passed through for validation.
+export function parseCellValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  if (/^[-+]?(\d+([.,]\d*)?|[.,]\d+)([eE][-+]?\d+)?$/.test(trimmed)) {
+    return Number(trimmed.replace(',', '.'));
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,114 @@
+import type { SheetLayout, YearSheet } from '../../types';
+import { getFileLabel, parseCellValue, toColumnLetter } from './common';
+
+export type Delimiter = ',' | ';' | '\t';
+
+const DELIMITERS: Delimiter[] = [',', ';', '\t'];
+
+interface DelimitedRow {
+  cells: string[];
+  // 1-based line the row starts on, used for cell references in the validation report
+  line: number;
+}
+
+// Splits delimited text into rows of cells, honouring double-quoted fields with embedded
+// delimiters, line breaks and escaped quotes ("")
+function tokenize(text: string, delimiter: Delimiter): DelimitedRow[] {
+  const rows: DelimitedRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  return rows.filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+}
+
+// Picks the delimiter that splits the header line into the most columns. Semicolons win ties
+// with commas because semicolon files use commas as decimal separators.
+export function detectDelimiter(text: string): Delimiter {
+  const headerLine = text.split(/\r?\n/).find((line) => line.trim() !== '') ?? '';
+  const counts = DELIMITERS.map((delimiter) => ({
+    delimiter,
+    count: tokenize(headerLine, delimiter)[0]?.cells.length ?? 0,
+  }));
+
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  if (best.count <= 1) return ',';
+
+  const semicolon = counts.find((c) => c.delimiter === ';')!;
+  return best.delimiter === ',' && semicolon.count === best.count ? ';' : best.delimiter;
+}
+
+export function parseDelimitedData(
+  text: string,
+  fileName: string,
+  delimiter: Delimiter = detectDelimiter(text),
+): YearSheet[] {
+  const [headerRow, ...bodyRows] = tokenize(text, delimiter);
+  if (!headerRow) return [];
+
+  // Same shape as the spreadsheet parser: first column is the country, the rest are keyed by header
+  const headers = headerRow.cells.slice(1).map((header) => header.trim());
+  const layout: SheetLayout = {
+    sheetName: fileName,
+    headerRow: headerRow.line,
+    rowNumbers: [],
+    columnLetters: { Country: toColumnLetter(0) },
+  };
+  headers.forEach((header, index) => {
+    layout.columnLetters[header] = toColumnLetter(index + 1);
+  });
+
+  const rows: any[] = [];
+  bodyRows.forEach(({ cells, line }) => {
+    const country = cells[0]?.trim();
+    if (!country) return;
+
+    const row: any = { Country: country };
+    headers.forEach((header, column) => {
+      row[header] = parseCellValue(cells[column + 1] ?? '');
+    });
+
+    rows.push(row);
+    layout.rowNumbers.push(line);
+  });
+
+  return rows.length > 0 ? [{ year: getFileLabel(fileName), rows, layout }] : [];
+}
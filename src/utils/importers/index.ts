@@ -0,0 +1,97 @@
+import type { YearSheet } from '../../types';
+import { parseDelimitedData } from './delimited';
+import { parseJsonData } from './json';
+import { parseXlsxData } from './xlsx';
+
+export { parseXlsxData };
+
+export type ImportFormat = 'xlsx' | 'xls' | 'ods' | 'csv' | 'tsv' | 'json';
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  xlsx: 'xlsx',
+  xlsm: 'xlsx',
+  xls: 'xls',
+  ods: 'ods',
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  json: 'json',
+};
+
+// Extensions and MIME types for the upload dropzone
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx', '.xlsm'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+  'text/csv': ['.csv'],
+  'text/tab-separated-values': ['.tsv', '.tab'],
+  'text/plain': ['.txt'],
+  'application/json': ['.json'],
+};
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function decodeText(bytes: Uint8Array): string {
+  // Drop the byte order mark Excel adds to UTF-8 CSV exports
+  return new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+}
+
+// Recognizes the format from the file contents, returning null when the contents are ambiguous
+function sniffFormat(bytes: Uint8Array): ImportFormat | null {
+  // Zip container: ODS names its mimetype in an uncompressed entry near the start
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, 4096));
+    return head.includes('application/vnd.oasis.opendocument.spreadsheet') ? 'ods' : 'xlsx';
+  }
+
+  // OLE compound document used by legacy .xls files
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return 'xls';
+  }
+
+  const text = decodeText(bytes.subarray(0, 4096)).trimStart();
+  if (text.startsWith('[') || text.startsWith('{')) return 'json';
+
+  const firstLine = text.split(/\r?\n/)[0] ?? '';
+  if (firstLine.includes('\t')) return 'tsv';
+  if (firstLine.includes(';') || firstLine.includes(',')) return 'csv';
+
+  return null;
+}
+
+export function detectFormat(bytes: Uint8Array, fileName: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const byExtension = EXTENSION_FORMATS[extension] ?? null;
+  const byContent = sniffFormat(bytes);
+
+  // Binary signatures are reliable and win over a misleading extension (a CSV saved as .xls, an
+  // .xlsx renamed to .csv); for text the extension decides between CSV and TSV
+  if (byContent === 'xlsx' || byContent === 'xls' || byContent === 'ods') return byContent;
+  if (byExtension === 'csv' || byExtension === 'tsv') {
+    return byContent === 'json' ? 'json' : byExtension;
+  }
+  return byContent ?? byExtension;
+}
+
+export function parseFile(buffer: ArrayBuffer | Uint8Array, fileName: string): YearSheet[] {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const format = detectFormat(bytes, fileName);
+
+  switch (format) {
+    case 'xlsx':
+    case 'xls':
+    case 'ods':
+      return parseXlsxData(bytes);
+    case 'csv':
+      return parseDelimitedData(decodeText(bytes), fileName);
+    case 'tsv':
+      return parseDelimitedData(decodeText(bytes), fileName, '\t');
+    case 'json':
+      return parseJsonData(decodeText(bytes), fileName);
+    default:
+      throw new Error(`Unsupported file format: ${fileName}`);
+  }
+}
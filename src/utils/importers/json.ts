@@ -0,0 +1,69 @@
+import type { SheetLayout, YearSheet } from '../../types';
+import { extractYear, getFileLabel, parseCellValue } from './common';
+
+// Turns one JSON record into the spreadsheet row shape, accepting any casing of the country key.
+// Keys are trimmed like the sector names, which rows are read by.
+function toRow(record: Record<string, unknown>): any {
+  const row: any = {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (key.trim().toLowerCase() === 'country') {
+      row.Country = typeof value === 'string' ? value.trim() : value;
+    } else {
+      row[key.trim()] = parseCellValue(value);
+    }
+  });
+
+  return row;
+}
+
+function toYearSheet(records: unknown[], year: string, sheetName: string): YearSheet {
+  // Without cells, rows are referenced by their position in the array (1-based)
+  const layout: SheetLayout = {
+    sheetName,
+    headerRow: 0,
+    rowNumbers: [],
+    columnLetters: {},
+  };
+
+  const rows: any[] = [];
+  records.forEach((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) return;
+    rows.push(toRow(record as Record<string, unknown>));
+    layout.rowNumbers.push(index + 1);
+  });
+
+  return { year, rows, layout };
+}
+
+// Accepts either an array of country records (one edition) or an object mapping edition labels
+// to such arrays, e.g. { "2024": [...], "2025": [...] }
+export function parseJsonData(text: string, fileName: string): YearSheet[] {
+  const parsed = JSON.parse(text);
+
+  if (Array.isArray(parsed)) {
+    const label = getFileLabel(fileName);
+    return [toYearSheet(parsed, label, fileName)].filter((sheet) => sheet.rows.length > 0);
+  }
+
+  if (parsed && typeof parsed === 'object') {
+    const editions = Object.entries(parsed).filter(([, value]) => Array.isArray(value));
+    const hasYears = editions.some(([label]) => extractYear(label) !== null);
+
+    return editions
+      .filter(([label]) => !hasYears || extractYear(label) !== null)
+      .map(([label, records]) => ({
+        year: extractYear(label) ?? label,
+        sheet: toYearSheet(
+          records as unknown[],
+          extractYear(label) ?? label,
+          `${fileName} › ${label}`,
+        ),
+      }))
+      .sort((a, b) => (hasYears ? Number(a.year) - Number(b.year) : 0))
+      .map(({ sheet }) => sheet)
+      .filter((sheet) => sheet.rows.length > 0);
+  }
+
+  throw new Error('JSON data must be an array of country records or an object of such arrays');
+}
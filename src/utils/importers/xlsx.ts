@@ -0,0 +1,71 @@
+import * as XLSX from 'xlsx';
+
+import type { SheetLayout, YearSheet } from '../../types';
+import { extractYear } from './common';
+
+function parseWorksheet(worksheet: XLSX.WorkSheet, sheetName: string) {
+  // Get the range of the worksheet
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+  const layout: SheetLayout = {
+    sheetName,
+    headerRow: range.s.r + 1,
+    rowNumbers: [],
+    columnLetters: { Country: XLSX.utils.encode_col(range.s.c) },
+  };
+
+  // Extract headers (sectors) from the first row
+  const headers: string[] = [];
+  for (let C = range.s.c + 1; C <= range.e.c; C++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: C })];
+    // Trimmed like the sector names, which rows are read by
+    const header = String(cell?.v ?? '').trim();
+    headers.push(header);
+    layout.columnLetters[header] = XLSX.utils.encode_col(C);
+  }
+
+  // Process each row into an object
+  const jsonData = [];
+  for (let R = range.s.r + 1; R <= range.e.r; R++) {
+    const countryCell = worksheet[XLSX.utils.encode_cell({ r: R, c: range.s.c })];
+    if (!countryCell) continue;
+
+    const row: any = {
+      Country: countryCell.v,
+    };
+
+    // Get values for each sector, keeping the raw cell value so validation can report it.
+    // Empty cells are kept as missing (null) rather than read as 0.
+    headers.forEach((header, index) => {
+      const cell = worksheet[XLSX.utils.encode_cell({ r: R, c: range.s.c + index + 1 })];
+      row[header] = cell && cell.v !== '' ? cell.v : null;
+    });
+
+    jsonData.push(row);
+    layout.rowNumbers.push(R + 1);
+  }
+
+  return { rows: jsonData, layout };
+}
+
+// Each sheet is one index edition. When some sheet names contain a year, only those sheets are
+// loaded (so notes or methodology sheets are skipped) and they are ordered chronologically.
+// ODS workbooks go through the same path, SheetJS reads them into the same structure.
+export function parseXlsxData(buffer: ArrayBuffer | Uint8Array): YearSheet[] {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+
+  const yearSheets = workbook.SheetNames.map((sheetName) => ({
+    sheetName,
+    year: extractYear(sheetName),
+  }));
+  const hasYears = yearSheets.some((sheet) => sheet.year !== null);
+
+  return yearSheets
+    .filter((sheet) => !hasYears || sheet.year !== null)
+    .sort((a, b) => (hasYears ? Number(a.year) - Number(b.year) : 0))
+    .map((sheet) => ({
+      year: sheet.year ?? sheet.sheetName,
+      ...parseWorksheet(workbook.Sheets[sheet.sheetName], sheet.sheetName),
+    }))
+    .filter((sheet) => sheet.rows.length > 0);
+}
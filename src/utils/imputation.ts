@@ -0,0 +1,134 @@
+import * as d3 from 'd3';
+import type { CountryData, ImputationMethod, ImputationSettings, SectorWeights } from '../types';
+import { getCountryRegion } from './countries';
+
+export interface ImputationMethodInfo {
+  value: ImputationMethod;
+  label: string;
+  description: string;
+}
+
+export const IMPUTATION_METHODS: ImputationMethodInfo[] = [
+  {
+    value: 'exclude',
+    label: 'Exclude and re-weight',
+    description:
+      "The sector is left out and its weight is spread over the country's other sectors.",
+  },
+  {
+    value: 'mean',
+    label: 'Sector mean',
+    description: 'Filled with the average of the countries that have a value.',
+  },
+  {
+    value: 'median',
+    label: 'Sector median',
+    description: 'Filled with the median of the countries that have a value.',
+  },
+  {
+    value: 'regional',
+    label: 'Regional mean',
+    description:
+      'Filled with the average of the countries in the same region, or the sector mean when none has a value.',
+  },
+  {
+    value: 'zero',
+    label: 'Zero',
+    description: 'Filled with 0, as if the country had no capability in the sector.',
+  },
+];
+
+export const DEFAULT_IMPUTATION: ImputationSettings = { method: 'exclude', sectorMethods: {} };
+
+export function getImputationLabel(method: ImputationMethod): string {
+  return IMPUTATION_METHODS.find((info) => info.value === method)?.label ?? method;
+}
+
+export function getSectorImputation(
+  settings: ImputationSettings,
+  sectorKey: string,
+): ImputationMethod {
+  return settings.sectorMethods[sectorKey] ?? settings.method;
+}
+
+// Short note for tables and tooltips, null when the value came from the file
+export function describeImputedValue(country: CountryData, sectorKey: string): string | null {
+  const method = country.imputedSectors[sectorKey];
+  if (!method) return null;
+  return method === 'exclude'
+    ? 'missing, excluded from the total'
+    : `missing, imputed with ${getImputationLabel(method).toLowerCase()}`;
+}
+
+// Fills the missing sector values of one edition. Values are computed from the countries that
+// have data, so imputed values never feed into other imputations. A sector nobody has a value
+// for can only be excluded.
+export function imputeMissingValues(
+  data: CountryData[],
+  sectorKeys: string[],
+  settings: ImputationSettings,
+): CountryData[] {
+  const imputed = data.map((country) => ({
+    ...country,
+    sectorValues: { ...country.sectorValues },
+    imputedSectors: {} as Record<string, ImputationMethod>,
+  }));
+
+  sectorKeys.forEach((key) => {
+    const observed = data.filter((country) => country.sectorValues[key] !== undefined);
+    const mean = d3.mean(observed, (country) => country.sectorValues[key]);
+    const median = d3.median(observed, (country) => country.sectorValues[key]);
+    const regionalMeans = d3.rollup(
+      observed.filter((country) => getCountryRegion(country.countryCode) !== null),
+      (countries) => d3.mean(countries, (country) => country.sectorValues[key])!,
+      (country) => getCountryRegion(country.countryCode),
+    );
+
+    imputed.forEach((country) => {
+      if (country.sectorValues[key] !== undefined) return;
+
+      const method = getSectorImputation(settings, key);
+      let value: number | undefined;
+      if (method === 'mean') value = mean;
+      if (method === 'median') value = median;
+      if (method === 'regional') {
+        value = regionalMeans.get(getCountryRegion(country.countryCode)) ?? mean;
+      }
+      if (method === 'zero') value = 0;
+
+      if (value === undefined) {
+        country.imputedSectors[key] = 'exclude';
+        return;
+      }
+      country.sectorValues[key] = value;
+      country.imputedSectors[key] = method;
+    });
+  });
+
+  return imputed;
+}
+
+// Weights of the sectors a country has values for, rescaled to the same total as the full set
+export function getEffectiveWeights(country: CountryData, weights: SectorWeights): SectorWeights {
+  const excluded = Object.keys(weights).filter((key) => country.imputedSectors[key] === 'exclude');
+  if (excluded.length === 0) return weights;
+
+  const total = d3.sum(Object.values(weights));
+  const remaining = d3.sum(
+    Object.entries(weights).filter(([key]) => !excluded.includes(key)),
+    ([, weight]) => weight,
+  );
+
+  return Object.fromEntries(
+    Object.entries(weights).map(([key, weight]) => [
+      key,
+      excluded.includes(key) || remaining === 0 ? 0 : (weight * total) / remaining,
+    ]),
+  );
+}
+
+// Tooltip markup flagging a missing value, empty when the value came from the file
+export function formatImputedNote(country: CountryData, sectorKey: string): string {
+  const note = describeImputedValue(country, sectorKey);
+  return note ? ` <span style="color: #B7791F; font-style: italic;">(${note})</span>` : '';
+}
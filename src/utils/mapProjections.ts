@@ -0,0 +1,84 @@
+import * as d3 from 'd3';
+import { geoRobinson } from 'd3-geo-projection';
+
+export type MapProjection = 'equalEarth' | 'naturalEarth' | 'robinson' | 'mercator' | 'globe';
+
+export interface MapProjectionInfo {
+  value: MapProjection;
+  label: string;
+  description: string;
+}
+
+export const MAP_PROJECTIONS: MapProjectionInfo[] = [
+  {
+    value: 'equalEarth',
+    label: 'Equal Earth',
+    description: 'Keeps the relative size of every country, so large countries are not overstated.',
+  },
+  {
+    value: 'naturalEarth',
+    label: 'Natural Earth',
+    description: 'A compromise that keeps both shapes and sizes close to the globe.',
+  },
+  {
+    value: 'robinson',
+    label: 'Robinson',
+    description: 'The classic atlas compromise, with little distortion around the equator.',
+  },
+  {
+    value: 'mercator',
+    label: 'Mercator',
+    description:
+      'The familiar web map. Countries far from the equator look much larger than they are.',
+  },
+  {
+    value: 'globe',
+    label: 'Globe',
+    description: 'An orthographic 3D globe. Drag to rotate it.',
+  },
+];
+
+export const DEFAULT_MAP_PROJECTION: MapProjection = 'equalEarth';
+
+// Globe rotation as [-longitude, -latitude, roll] of the point facing the viewer
+export type GlobeRotation = [number, number, number];
+
+export const DEFAULT_GLOBE_ROTATION: GlobeRotation = [-10, -20, 0];
+
+const SPHERE: d3.GeoPermissibleObjects = { type: 'Sphere' };
+
+// Fits the whole world in the map area; the globe starts at DEFAULT_GLOBE_ROTATION
+export function createProjection(
+  type: MapProjection,
+  width: number,
+  height: number,
+): d3.GeoProjection {
+  const padding = 4;
+  const extent: [[number, number], [number, number]] = [
+    [padding, padding],
+    [width - padding, height - padding],
+  ];
+
+  switch (type) {
+    case 'equalEarth':
+      return d3.geoEqualEarth().fitExtent(extent, SPHERE);
+    case 'naturalEarth':
+      return d3.geoNaturalEarth1().fitExtent(extent, SPHERE);
+    case 'robinson':
+      return geoRobinson().fitExtent(extent, SPHERE);
+    case 'mercator':
+      // The sphere is unbounded in Mercator, so fit the width instead
+      return d3
+        .geoMercator()
+        .scale((width - 3) / (2 * Math.PI))
+        .translate([width / 2, height / 2]);
+    case 'globe':
+      return d3.geoOrthographic().rotate(DEFAULT_GLOBE_ROTATION).fitExtent(extent, SPHERE);
+  }
+}
+
+// Rotation that brings the feature's centroid to the front of the globe
+export function getGlobeRotation(feature: d3.GeoPermissibleObjects): GlobeRotation {
+  const [longitude, latitude] = d3.geoCentroid(feature);
+  return [-longitude, -latitude, 0];
+}
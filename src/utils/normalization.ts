@@ -0,0 +1,126 @@
+import * as d3 from 'd3';
+import type { CountryData, NormalizationMethod, NormalizationSettings, Sector } from '../types';
+
+export interface NormalizationMethodInfo {
+  value: NormalizationMethod;
+  label: string;
+  description: string;
+}
+
+export const NORMALIZATION_METHODS: NormalizationMethodInfo[] = [
+  {
+    value: 'none',
+    label: 'None',
+    description: 'Raw values are weighted as they appear in the file.',
+  },
+  {
+    value: 'minmax',
+    label: 'Min-max',
+    description: 'Rescaled so the lowest country scores 0 and the highest 1.',
+  },
+  {
+    value: 'zscore',
+    label: 'Z-score',
+    description: 'Standard deviations from the mean; below-average countries score negative.',
+  },
+  {
+    value: 'rank',
+    label: 'Rank',
+    description: 'Position among the countries, 1 being the lowest value; ties share the average.',
+  },
+  {
+    value: 'percentile',
+    label: 'Percentile',
+    description: 'Share of the other countries with a lower value, from 0 to 1.',
+  },
+];
+
+export const DEFAULT_NORMALIZATION: NormalizationSettings = { method: 'none', sectorMethods: {} };
+
+export function getNormalizationLabel(method: NormalizationMethod): string {
+  return NORMALIZATION_METHODS.find((info) => info.value === method)?.label ?? method;
+}
+
+export function getSectorNormalization(
+  settings: NormalizationSettings,
+  sectorKey: string,
+): NormalizationMethod {
+  return settings.sectorMethods[sectorKey] ?? settings.method;
+}
+
+// One line summary such as "Min-max (Quantum: Rank)" for the sidebar and exports
+export function describeNormalization(settings: NormalizationSettings, sectors: Sector[]): string {
+  const exceptions = sectors
+    .filter((sector) => getSectorNormalization(settings, sector.key) !== settings.method)
+    .map(
+      (sector) =>
+        `${sector.name}: ${getNormalizationLabel(getSectorNormalization(settings, sector.key))}`,
+    );
+  const label = getNormalizationLabel(settings.method);
+  return exceptions.length > 0 ? `${label} (${exceptions.join(', ')})` : label;
+}
+
+// Ascending ranks where tied values share the average of the positions they span
+function averageRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+export function normalizeValues(values: number[], method: NormalizationMethod): number[] {
+  if (values.length === 0 || method === 'none') return values;
+
+  switch (method) {
+    case 'minmax': {
+      const [min, max] = d3.extent(values) as [number, number];
+      // A sector where every country scores the same cannot separate them
+      return values.map((value) => (max === min ? 0 : (value - min) / (max - min)));
+    }
+    case 'zscore': {
+      const mean = d3.mean(values)!;
+      const deviation = Math.sqrt(d3.mean(values, (value) => (value - mean) ** 2)!);
+      return values.map((value) => (deviation === 0 ? 0 : (value - mean) / deviation));
+    }
+    case 'rank':
+      return averageRanks(values);
+    case 'percentile': {
+      if (values.length === 1) return [0];
+      return averageRanks(values).map((rank) => (rank - 1) / (values.length - 1));
+    }
+  }
+}
+
+// Normalizes each sector across the countries of one edition
+export function normalizeSectorValues(
+  data: CountryData[],
+  sectorKeys: string[],
+  settings: NormalizationSettings,
+): CountryData[] {
+  const normalized = data.map((country) => ({
+    ...country,
+    normalizedValues: {} as Record<string, number>,
+  }));
+
+  sectorKeys.forEach((key) => {
+    const present = normalized.filter((country) => country.sectorValues[key] !== undefined);
+    const values = normalizeValues(
+      present.map((country) => country.sectorValues[key]),
+      getSectorNormalization(settings, key),
+    );
+    present.forEach((country, index) => {
+      country.normalizedValues[key] = values[index];
+    });
+  });
+
+  return normalized;
+}
@@ -0,0 +1,39 @@
+import type { Scenario, Sector, SectorWeights } from '../types';
+import { getDefaultSectorWeights } from './sectors';
+
+// The built-in scenario with the even split; it follows the loaded file and cannot be edited
+export const DEFAULT_SCENARIO_ID = 'default';
+
+export function createScenarioId(): string {
+  return `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getDefaultScenario(sectors: Sector[]): Scenario {
+  return {
+    id: DEFAULT_SCENARIO_ID,
+    name: 'Default weights',
+    weights: getDefaultSectorWeights(sectors),
+  };
+}
+
+// Saved weights may come from a file with other sectors: unknown sectors are dropped and new
+// ones get no weight, so a scenario always covers exactly the loaded sectors
+export function alignWeights(weights: SectorWeights, sectors: Sector[]): SectorWeights {
+  return Object.fromEntries(sectors.map((sector) => [sector.key, weights[sector.key] ?? 0]));
+}
+
+export function areWeightsEqual(a: SectorWeights, b: SectorWeights): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => Math.abs((a[key] ?? 0) - (b[key] ?? 0)) < 0.0001);
+}
+
+// "Economic" -> "Economic (copy)", then "Economic (copy 2)" and so on
+export function getCopyName(name: string, scenarios: Scenario[]): string {
+  const base = name.replace(/ \(copy( \d+)?\)$/, '');
+  const names = new Set(scenarios.map((scenario) => scenario.name));
+  let candidate = `${base} (copy)`;
+  for (let i = 2; names.has(candidate); i++) {
+    candidate = `${base} (copy ${i})`;
+  }
+  return candidate;
+}
@@ -0,0 +1,66 @@
+import * as d3 from 'd3';
+
+import type { Sector, SectorWeights } from '../types';
+import { nonSectorColumns, sectorPalette } from './constants';
+
+export function toSectorKey(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function isSectorColumn(header: string): boolean {
+  const trimmed = header.trim();
+  if (!trimmed) return false;
+  return !nonSectorColumns.some((column) => column.toLowerCase() === trimmed.toLowerCase());
+}
+
+function pickPaletteColor(index: number): string {
+  if (index < sectorPalette.length) return sectorPalette[index];
+
+  // Past the palette, spread hues by the golden angle so neighbours stay distinguishable
+  const hue = (index * 137.508) % 360;
+  return d3.hsl(hue, 0.55, 0.55).formatHex();
+}
+
+export function buildSectorRegistry(headers: string[]): Sector[] {
+  const seen = new Set<string>();
+  const sectors: Sector[] = [];
+
+  headers.filter(isSectorColumn).forEach((header) => {
+    const key = toSectorKey(header);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+
+    sectors.push({
+      key,
+      name: header.trim(),
+      color: pickPaletteColor(sectors.length),
+    });
+  });
+
+  return sectors;
+}
+
+export function getDefaultSectorWeights(sectors: Sector[]): SectorWeights {
+  if (sectors.length === 0) return {};
+
+  // Round to whole percentages and give the remainder to the first sectors so the total is 100%
+  const base = Math.floor(100 / sectors.length);
+  const remainder = 100 - base * sectors.length;
+
+  return sectors.reduce((acc, sector, index) => {
+    acc[sector.key] = (base + (index < remainder ? 1 : 0)) / 100;
+    return acc;
+  }, {} as SectorWeights);
+}
+
+export function getSectorName(sectors: Sector[], key: string): string {
+  return sectors.find((sector) => sector.key === key)?.name ?? key;
+}
+
+export function getSectorColor(sectors: Sector[], key: string): string {
+  return sectors.find((sector) => sector.key === key)?.color ?? '#A0AEC0';
+}
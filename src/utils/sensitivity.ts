@@ -0,0 +1,165 @@
+import * as d3 from 'd3';
+import type {
+  AggregationMethod,
+  CountryData,
+  CountrySensitivity,
+  SectorWeights,
+  SensitivityMethod,
+  SensitivityResult,
+  SensitivitySettings,
+} from '../types';
+import { scoreCountryData } from './dataProcessing';
+import { areWeightsEqual } from './scenarios';
+
+export interface SensitivityMethodInfo {
+  value: SensitivityMethod;
+  label: string;
+  description: string;
+}
+
+export const SENSITIVITY_METHODS: SensitivityMethodInfo[] = [
+  {
+    value: 'dirichlet',
+    label: 'Dirichlet',
+    description:
+      'Whole weight vectors drawn around the current weights; higher concentration keeps them closer.',
+  },
+  {
+    value: 'range',
+    label: '± ranges',
+    description:
+      'Each sector moves at random within its range, then the weights are rescaled to the same total.',
+  },
+];
+
+export const SAMPLE_COUNTS = [1000, 5000, 10000];
+
+export const DEFAULT_SENSITIVITY: SensitivitySettings = {
+  method: 'dirichlet',
+  samples: 1000,
+  concentration: 50,
+  range: 10,
+  sectorRanges: {},
+  topN: 10,
+  seed: 1,
+};
+
+// Messages between the app and the sensitivity worker
+export interface SensitivityRequest {
+  data: CountryData[];
+  weights: SectorWeights;
+  settings: SensitivitySettings;
+  aggregation: AggregationMethod;
+}
+
+export type SensitivityMessage =
+  | { type: 'progress'; completed: number }
+  | { type: 'result'; countries: CountrySensitivity[] };
+
+// mulberry32: small, fast and good enough for sampling weights
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: () => number): number {
+  // Box-Muller; 1 - random() avoids log(0)
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Marsaglia and Tsang's method, with the usual boost for shapes below 1
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+// Both methods keep the total of the current weights and leave zero-weight sectors at zero
+// in Dirichlet mode, so a sector the user switched off stays off
+export function sampleWeights(
+  weights: SectorWeights,
+  settings: SensitivitySettings,
+  random: () => number,
+): SectorWeights {
+  const keys = Object.keys(weights);
+  const total = d3.sum(keys, (key) => weights[key]);
+  if (total === 0) return weights;
+
+  const draws = keys.map((key) => {
+    const weight = weights[key];
+    if (settings.method === 'dirichlet') {
+      return weight > 0 ? sampleGamma((weight / total) * settings.concentration, random) : 0;
+    }
+    const range = (settings.sectorRanges[key] ?? settings.range) / 100;
+    return Math.max(0, weight + (random() * 2 - 1) * range);
+  });
+
+  const drawTotal = d3.sum(draws);
+  if (drawTotal === 0) return weights;
+  return Object.fromEntries(keys.map((key, i) => [key, (draws[i] / drawTotal) * total]));
+}
+
+// Scores the edition once per sampled weight vector and summarises the ranks of each country
+export function runSensitivity(
+  data: CountryData[],
+  weights: SectorWeights,
+  settings: SensitivitySettings,
+  aggregation: AggregationMethod,
+  onProgress?: (completed: number) => void,
+): CountrySensitivity[] {
+  const random = createRandom(settings.seed);
+  const ranks = new Map(data.map((country) => [country.country, [] as number[]]));
+
+  for (let i = 0; i < settings.samples; i++) {
+    scoreCountryData(data, sampleWeights(weights, settings, random), aggregation).forEach(
+      (country) => {
+        ranks.get(country.country)!.push(country.rank);
+      },
+    );
+    if (onProgress && (i + 1) % 250 === 0) onProgress(i + 1);
+  }
+
+  return Array.from(ranks, ([country, countryRanks]) => {
+    const sorted = countryRanks.sort((a, b) => a - b);
+    return {
+      country,
+      medianRank: d3.quantileSorted(sorted, 0.5) ?? 0,
+      rankLow: d3.quantileSorted(sorted, 0.05) ?? 0,
+      rankHigh: d3.quantileSorted(sorted, 0.95) ?? 0,
+      topNProbability: sorted.filter((rank) => rank <= settings.topN).length / sorted.length,
+    };
+  });
+}
+
+// A result only describes the weights and edition it was run for
+export function isSensitivityCurrent(
+  result: SensitivityResult | null,
+  weights: SectorWeights,
+  year: string,
+): result is SensitivityResult {
+  return result !== null && result.year === year && areWeightsEqual(result.weights, weights);
+}
+
+export function formatRank(rank: number): string {
+  return Number.isInteger(rank) ? String(rank) : rank.toFixed(1);
+}
@@ -0,0 +1,84 @@
+import type { MapView, SectorWeights } from '../types';
+import { findCountryByCode } from './countries';
+
+// Bump when the meaning of a parameter changes; links with another version are ignored
+export const URL_STATE_VERSION = '1';
+
+export interface UrlState {
+  weights: SectorWeights | null;
+  sector: string | null;
+  // Country name as used by the dashboard (the registry name for matched countries)
+  country: string | null;
+  year: string | null;
+  view: MapView | null;
+}
+
+// Parameters, kept short so links stay readable:
+//   v  version
+//   w  weights as whole percentages, "ai-20.quantum-15" (sector keys only use [a-z0-9_])
+//   s  selected sector key
+//   c  selected country, as an ISO alpha-3 code when it has one
+//   y  edition
+//   z  map zoom as "scale_x_y"
+export function encodeUrlState(state: UrlState, countryCode: string | null): string {
+  const params = new URLSearchParams({ v: URL_STATE_VERSION });
+
+  if (state.weights) {
+    params.set(
+      'w',
+      Object.entries(state.weights)
+        .map(([key, weight]) => `${key}-${Math.round(weight * 100)}`)
+        .join('.'),
+    );
+  }
+  if (state.sector) params.set('s', state.sector);
+  if (state.country) params.set('c', countryCode ?? state.country);
+  if (state.year) params.set('y', state.year);
+  if (state.view) {
+    params.set(
+      'z',
+      [state.view.k.toFixed(2), Math.round(state.view.x), Math.round(state.view.y)].join('_'),
+    );
+  }
+
+  return `?${params.toString()}`;
+}
+
+function decodeWeights(value: string | null): SectorWeights | null {
+  if (!value) return null;
+
+  const weights: SectorWeights = {};
+  for (const pair of value.split('.')) {
+    const match = pair.match(/^([a-z0-9_]+)-(\d{1,3})$/);
+    if (!match) return null;
+    weights[match[1]] = Math.min(100, Number(match[2])) / 100;
+  }
+  return weights;
+}
+
+function decodeView(value: string | null): MapView | null {
+  const parts = value?.split('_').map(Number);
+  if (!parts || parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [k, x, y] = parts;
+  return k > 0 ? { k, x, y } : null;
+}
+
+// Returns null for links without state or from an unknown version
+export function decodeUrlState(search: string): UrlState | null {
+  const params = new URLSearchParams(search);
+  if (params.get('v') !== URL_STATE_VERSION) return null;
+
+  const country = params.get('c');
+  return {
+    weights: decodeWeights(params.get('w')),
+    sector: params.get('s'),
+    country: country ? (findCountryByCode(country)?.name ?? country) : null,
+    year: params.get('y'),
+    view: decodeView(params.get('z')),
+  };
+}
+
+export function isSameView(a: MapView | null, b: MapView | null): boolean {
+  if (!a || !b) return a === b;
+  return Math.abs(a.k - b.k) < 0.01 && Math.abs(a.x - b.x) < 1 && Math.abs(a.y - b.y) < 1;
+}
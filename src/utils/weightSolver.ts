@@ -0,0 +1,262 @@
+import * as d3 from 'd3';
+import type {
+  AggregationMethod,
+  CountryData,
+  SectorBounds,
+  SectorWeights,
+  SolverGoal,
+  SolverResult,
+} from '../types';
+import { DEFAULT_AGGREGATION, getBordaPoints } from './aggregation';
+import { scoreCountryData } from './dataProcessing';
+import { roundWeights } from './weights';
+
+// Each attempt asks for a wider lead, so rounding to whole percentage points and the re-weighting
+// of excluded sectors cannot undo the result
+const MARGINS = [1e-6, 1e-4, 1e-3, 1e-2, 3e-2];
+const MAX_SWEEPS = 2000;
+
+// Messages between the app and the solver worker
+export interface SolverRequest {
+  data: CountryData[];
+  weights: SectorWeights;
+  country: string;
+  goal: SolverGoal;
+  bounds: Record<string, SectorBounds>;
+  aggregation: AggregationMethod;
+}
+
+export type SolverMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: SolverResult };
+
+// Per-sector values whose weighted sum orders the countries like the aggregation does. Borda
+// points and logarithms (for the geometric mean) are exact; the minimum and penalized methods
+// are not linear in the weights and fall back to the arithmetic values as a guide.
+function getLinearValues(
+  data: CountryData[],
+  keys: string[],
+  aggregation: AggregationMethod,
+): Map<string, Record<string, number>> {
+  if (aggregation === 'borda') return getBordaPoints(data, keys);
+  return new Map(
+    data.map((country) => [
+      country.country,
+      aggregation === 'geometric'
+        ? Object.fromEntries(
+            Object.entries(country.normalizedValues).map(([key, value]) => [
+              key,
+              Math.log(Math.max(1e-9, value)),
+            ]),
+          )
+        : country.normalizedValues,
+    ]),
+  );
+}
+
+// Whether an 'infeasible' answer is reliable for the aggregation method
+export function isSolverExact(aggregation: AggregationMethod): boolean {
+  return aggregation !== 'minimum' && aggregation !== 'penalized';
+}
+
+// Sector values of a country as a linear function of the weights. Excluded sectors take the
+// country's average under the given weights, which gives the same total score at that point.
+function linearize(
+  country: CountryData,
+  values: Record<string, number>,
+  keys: string[],
+  weights: number[],
+): number[] {
+  const present = keys.map((key) => country.imputedSectors[key] !== 'exclude');
+  const presentWeight = d3.sum(keys, (_key, i) => (present[i] ? weights[i] : 0));
+  const presentScore = d3.sum(keys, (key, i) => (present[i] ? (values[key] ?? 0) * weights[i] : 0));
+  const fill = presentWeight > 0 ? presentScore / presentWeight : 0;
+  return keys.map((key, i) => (present[i] ? (values[key] ?? 0) : fill));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+// Closest point with the given total and every sector within its bounds, found by bisecting
+// the shift that is subtracted from all sectors
+function projectOntoBounds(point: number[], bounds: SectorBounds[], total: number): number[] {
+  const clampAll = (shift: number) =>
+    point.map((value, i) => Math.min(bounds[i].max, Math.max(bounds[i].min, value - shift)));
+
+  let low = d3.min(point, (value, i) => value - bounds[i].max)!;
+  let high = d3.max(point, (value, i) => value - bounds[i].min)!;
+  for (let i = 0; i < 60; i++) {
+    const shift = (low + high) / 2;
+    if (d3.sum(clampAll(shift)) > total) low = shift;
+    else high = shift;
+  }
+  return clampAll((low + high) / 2);
+}
+
+// Closest point where the country leads by at least the margin
+function projectOntoLead(point: number[], lead: number[], margin: number): number[] {
+  const gap = margin - dot(lead, point);
+  const norm = dot(lead, lead);
+  if (gap <= 0 || norm === 0) return point;
+  return point.map((value, i) => value + (gap / norm) * lead[i]);
+}
+
+// Dykstra's alternating projections: converges to the point of the intersection of the bounds
+// and all lead constraints closest to the start, or returns null when they do not intersect
+function closestWeights(
+  start: number[],
+  leads: number[][],
+  bounds: SectorBounds[],
+  total: number,
+  margin: number,
+): number[] | null {
+  const projections: ((point: number[]) => number[])[] = [
+    (point) => projectOntoBounds(point, bounds, total),
+    ...leads.map((lead) => (point: number[]) => projectOntoLead(point, lead, margin)),
+  ];
+  const increments = projections.map(() => start.map(() => 0));
+  let current = [...start];
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    const previous = current;
+    projections.forEach((project, p) => {
+      const shifted = current.map((value, i) => value + increments[p][i]);
+      current = project(shifted);
+      increments[p] = shifted.map((value, i) => value - current[i]);
+    });
+    if (d3.max(current, (value, i) => Math.abs(value - previous[i]))! < 1e-12) break;
+  }
+
+  const tolerance = 1e-9;
+  const withinBounds =
+    Math.abs(d3.sum(current) - total) < 1e-6 &&
+    current.every(
+      (value, i) => value >= bounds[i].min - tolerance && value <= bounds[i].max + tolerance,
+    );
+  const leadsHold = leads.every((lead) => dot(lead, current) >= margin - tolerance);
+  return withinBounds && leadsHold ? current : null;
+}
+
+// Whether every sector is within its bounds; rounding to whole percentage points can push one out
+function isWithinBounds(weights: SectorWeights, keys: string[], bounds: SectorBounds[]): boolean {
+  const tolerance = 1e-9;
+  return keys.every(
+    (key, i) =>
+      weights[key] >= bounds[i].min - tolerance && weights[key] <= bounds[i].max + tolerance,
+  );
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+}
+
+function meetsGoal(scored: CountryData[], country: string, goal: SolverGoal): boolean {
+  const target = scored.find((d) => d.country === country);
+  if (!target) return false;
+  if (goal.type === 'rank') return target.rank <= goal.rank;
+  const rival = scored.find((d) => d.country === goal.rival);
+  return rival !== undefined && target.totalScore > rival.totalScore;
+}
+
+// Countries the target has to finish ahead of. For a target rank it may stay behind rank - 1 of
+// them, so those that would take the largest change in weights on their own are left out.
+function chooseRivals(
+  values: Map<string, number[]>,
+  country: string,
+  goal: SolverGoal,
+  start: number[],
+  bounds: SectorBounds[],
+  total: number,
+  margin: number,
+  onProgress?: (progress: number) => void,
+): string[] {
+  if (goal.type === 'beat') return [goal.rival];
+
+  const targetValues = values.get(country)!;
+  const others = Array.from(values.keys()).filter((other) => other !== country);
+  const costs = others
+    .map((other, index) => {
+      const lead = targetValues.map((value, i) => value - values.get(other)![i]);
+      const solution = closestWeights(start, [lead], bounds, total, margin);
+      onProgress?.((index + 1) / others.length);
+      return { other, cost: solution ? distance(solution, start) : Infinity };
+    })
+    .sort((a, b) => a.cost - b.cost);
+
+  return costs.slice(0, Math.max(0, costs.length - (goal.rank - 1))).map(({ other }) => other);
+}
+
+// Finds the weights closest to the current ones (in the Euclidean sense, keeping the same
+// total) under which the country reaches the goal. Every suggestion is checked against the
+// bounds and by scoring the edition again, so a 'solved' result always achieves the goal.
+// Progress is reported as the share of the attempts made, from 0 to 1.
+export function solveWeights(
+  data: CountryData[],
+  weights: SectorWeights,
+  country: string,
+  goal: SolverGoal,
+  bounds: Record<string, SectorBounds>,
+  aggregation: AggregationMethod = DEFAULT_AGGREGATION,
+  onProgress?: (progress: number) => void,
+): SolverResult {
+  const keys = Object.keys(weights);
+  const current = scoreCountryData(data, weights, aggregation);
+  if (meetsGoal(current, country, goal)) {
+    return {
+      status: 'met',
+      weights,
+      rank: current.find((d) => d.country === country)?.rank ?? null,
+    };
+  }
+
+  const start = keys.map((key) => weights[key]);
+  const total = d3.sum(start);
+  const keyBounds = keys.map((key) => bounds[key] ?? { min: 0, max: total });
+  const linearValues = getLinearValues(data, keys, aggregation);
+  const scale =
+    total *
+    (d3.max(data, (d) => d3.max(keys, (key) => Math.abs(linearValues.get(d.country)![key] ?? 0))) ||
+      1);
+
+  let point = start;
+  for (const [attempt, factor] of MARGINS.entries()) {
+    const margin = factor * scale;
+    const values = new Map(
+      data.map((d) => [d.country, linearize(d, linearValues.get(d.country)!, keys, point)]),
+    );
+    const targetValues = values.get(country);
+    if (!targetValues) break;
+
+    const rivals = chooseRivals(values, country, goal, start, keyBounds, total, margin, (share) =>
+      onProgress?.((attempt + share) / MARGINS.length),
+    );
+    const leads = rivals.map((rival) =>
+      targetValues.map((value, i) => value - values.get(rival)![i]),
+    );
+    const solution = closestWeights(start, leads, keyBounds, total, margin);
+    if (!solution) continue;
+
+    // The solution may sit just outside a bound, within the projection's tolerance
+    const suggested = roundWeights(
+      Object.fromEntries(
+        keys.map((key, i) => [
+          key,
+          Math.min(keyBounds[i].max, Math.max(keyBounds[i].min, solution[i])),
+        ]),
+      ),
+      keys,
+    );
+    const scored = scoreCountryData(data, suggested, aggregation);
+    if (isWithinBounds(suggested, keys, keyBounds) && meetsGoal(scored, country, goal)) {
+      return {
+        status: 'solved',
+        weights: suggested,
+        rank: scored.find((d) => d.country === country)?.rank ?? null,
+      };
+    }
+    point = solution;
+  }
+
+  return { status: 'infeasible', weights: null, rank: null };
+}
@@ -0,0 +1,98 @@
+import type { SectorWeights } from '../types';
+
+// Balancing works in whole percentage points so the sliders always add up to exactly 100%
+function toPercent(weight: number | undefined): number {
+  return Math.round((weight ?? 0) * 100);
+}
+
+// Splits an integer total across keys in proportion to their shares, using the largest
+// remainder method so the parts are whole numbers that add up to the total. Negative shares
+// count as none, so no part drops below 0; keys with no share at all split the total evenly.
+function distribute(total: number, shares: Record<string, number>): Record<string, number> {
+  const keys = Object.keys(shares);
+  if (keys.length === 0) return {};
+
+  const shareTotal = keys.reduce((sum, key) => sum + Math.max(0, shares[key]), 0);
+  const exact = keys.map((key) => ({
+    key,
+    value: shareTotal > 0 ? (total * Math.max(0, shares[key])) / shareTotal : total / keys.length,
+  }));
+
+  const result: Record<string, number> = {};
+  exact.forEach(({ key, value }) => {
+    result[key] = Math.floor(value);
+  });
+
+  let leftover = total - Object.values(result).reduce((sum, value) => sum + value, 0);
+  [...exact]
+    .sort((a, b) => (b.value % 1) - (a.value % 1))
+    .forEach(({ key }) => {
+      if (leftover <= 0) return;
+      result[key] += 1;
+      leftover -= 1;
+    });
+
+  return result;
+}
+
+function toWeights(percentages: Record<string, number>): SectorWeights {
+  return Object.fromEntries(Object.entries(percentages).map(([key, value]) => [key, value / 100]));
+}
+
+// Sets one sector and spreads the difference across the other unlocked sectors in proportion to
+// their current weights. The value is capped so the locked sectors keep theirs; with nothing
+// left to take the difference, the weights stay as they are.
+export function balanceWeights(
+  weights: SectorWeights,
+  keys: string[],
+  changedKey: string,
+  value: number,
+  lockedKeys: string[],
+): SectorWeights {
+  const adjustable = keys.filter((key) => key !== changedKey && !lockedKeys.includes(key));
+  if (adjustable.length === 0) return weights;
+
+  const lockedTotal = keys
+    .filter((key) => key !== changedKey && lockedKeys.includes(key))
+    .reduce((sum, key) => sum + toPercent(weights[key]), 0);
+  const available = Math.max(0, 100 - lockedTotal);
+  const changed = Math.min(available, Math.max(0, Math.round(value * 100)));
+
+  const shares = Object.fromEntries(adjustable.map((key) => [key, toPercent(weights[key])]));
+
+  return {
+    ...weights,
+    ...toWeights({ [changedKey]: changed, ...distribute(available - changed, shares) }),
+  };
+}
+
+// Scales the unlocked sectors so the total is 100%, keeping locked sectors as they are
+export function normalizeWeights(
+  weights: SectorWeights,
+  keys: string[],
+  lockedKeys: string[] = [],
+): SectorWeights {
+  const adjustable = keys.filter((key) => !lockedKeys.includes(key));
+  if (adjustable.length === 0) return weights;
+
+  const lockedTotal = keys
+    .filter((key) => lockedKeys.includes(key))
+    .reduce((sum, key) => sum + toPercent(weights[key]), 0);
+  const shares = Object.fromEntries(adjustable.map((key) => [key, toPercent(weights[key])]));
+
+  return {
+    ...weights,
+    ...toWeights(distribute(Math.max(0, 100 - lockedTotal), shares)),
+  };
+}
+
+export function getTotalPercentage(weights: SectorWeights): number {
+  return Math.round(Object.values(weights).reduce((sum, weight) => sum + weight, 0) * 100);
+}
+
+// Rounds to whole percentage points without changing the total, so the result fits the sliders
+export function roundWeights(weights: SectorWeights, keys: string[]): SectorWeights {
+  const total = Math.round(keys.reduce((sum, key) => sum + (weights[key] ?? 0), 0) * 100);
+  const shares = Object.fromEntries(keys.map((key) => [key, (weights[key] ?? 0) * 100]));
+  return { ...weights, ...toWeights(distribute(total, shares)) };
+}
@@ -0,0 +1,130 @@
+import * as d3 from 'd3';
+import { feature, merge } from 'topojson-client';
+import type { Feature, Geometry, MultiPolygon } from 'geojson';
+import type {
+  GeometryCollection,
+  MultiPolygon as TopoMultiPolygon,
+  Polygon as TopoPolygon,
+  Topology,
+} from 'topojson-specification';
+import countries110mUrl from 'world-atlas/countries-110m.json?url';
+import countries50mUrl from 'world-atlas/countries-50m.json?url';
+import { getFeatureCountryCode } from './countries';
+
+// Natural Earth scales shipped by world-atlas: 1:110m for the world view, 1:50m for close-ups
+export type MapResolution = '110m' | '50m';
+
+// 'auto' switches to the detailed geometry once the map is zoomed in
+export type MapResolutionSetting = MapResolution | 'auto';
+
+export const MAP_RESOLUTION_OPTIONS: { value: MapResolutionSetting; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: '110m', label: 'Standard' },
+  { value: '50m', label: 'Detailed' },
+];
+
+// SVG keeps every country as its own element; Canvas paints them all in one pass, which stays
+// smooth with the detailed borders
+export type MapRenderer = 'svg' | 'canvas';
+
+export const MAP_RENDERER_OPTIONS: { value: MapRenderer; label: string }[] = [
+  { value: 'svg', label: 'SVG' },
+  { value: 'canvas', label: 'Canvas' },
+];
+
+// Zoom level from which 'auto' uses the 1:50m geometry
+export const DETAILED_ZOOM_LEVEL = 3;
+
+export interface CountryFeatureProperties {
+  name: string;
+  // ISO 3166 alpha-3 code matched from the numeric id or the name
+  countryCode: string | null;
+}
+
+export type CountryFeature = Feature<Geometry, CountryFeatureProperties>;
+
+export interface WorldGeometry {
+  features: CountryFeature[];
+  // Outline of the given countries (alpha-3 codes) as one shape, without the borders between them
+  mergeCountries: (alpha3Codes: string[]) => MultiPolygon;
+}
+
+const GEOMETRY_URLS: Record<MapResolution, string> = {
+  '110m': countries110mUrl,
+  '50m': countries50mUrl,
+};
+
+// One request per resolution for the lifetime of the page, shared by every map
+const cache = new Map<MapResolution, Promise<WorldGeometry>>();
+
+export function resolveMapResolution(setting: MapResolutionSetting, zoom: number): MapResolution {
+  if (setting !== 'auto') return setting;
+  return zoom >= DETAILED_ZOOM_LEVEL ? '50m' : '110m';
+}
+
+// The topology files are bundled with the app, so the map also works offline and behind
+// proxies that block CDNs. A failed load is not cached and can be retried.
+export function loadWorldGeometry(resolution: MapResolution): Promise<WorldGeometry> {
+  const cached = cache.get(resolution);
+  if (cached) return cached;
+
+  const request = fetch(GEOMETRY_URLS[resolution])
+    .then((response) => {
+      if (!response.ok) throw new Error(`Map geometry request failed: ${response.status}`);
+      return response.json() as Promise<
+        Topology<{ countries: GeometryCollection<{ name: string }> }>
+      >;
+    })
+    .then((topology): WorldGeometry => {
+      const countries = topology.objects.countries;
+      const shapes = countries.geometries
+        .filter(
+          (shape): shape is (TopoPolygon | TopoMultiPolygon) & { properties?: { name: string } } =>
+            shape.type === 'Polygon' || shape.type === 'MultiPolygon',
+        )
+        .map((shape) => ({ shape, countryCode: getFeatureCountryCode(shape) }));
+
+      return {
+        features: feature(topology, countries).features.map((country) => ({
+          ...country,
+          properties: {
+            name: country.properties?.name ?? '',
+            countryCode: getFeatureCountryCode(country),
+          },
+        })),
+        mergeCountries: (alpha3Codes) => {
+          const codes = new Set(alpha3Codes);
+          return merge(
+            topology,
+            shapes
+              .filter(({ countryCode }) => countryCode && codes.has(countryCode))
+              .map(({ shape }) => shape),
+          );
+        },
+      };
+    });
+
+  cache.set(resolution, request);
+  request.catch(() => cache.delete(resolution));
+  return request;
+}
+
+// Finds the country containing a [longitude, latitude] point, for maps painted on a canvas where
+// the shapes cannot receive pointer events themselves
+export function createCountryLocator(
+  features: CountryFeature[],
+): (location: [number, number]) => CountryFeature | null {
+  const bounds = features.map((country) => d3.geoBounds(country));
+
+  return ([longitude, latitude]) =>
+    features.find((country, i) => {
+      const [[west, south], [east, north]] = bounds[i];
+      if (latitude < south || latitude > north) return false;
+      // Bounds that cross the antimeridian have their west edge east of their east edge
+      const isInLongitude =
+        west <= east
+          ? longitude >= west && longitude <= east
+          : longitude >= west || longitude <= east;
+      return isInLongitude && d3.geoContains(country, [longitude, latitude]);
+    }) ?? null;
+}
@@ -3,3 +3,7 @@ declare module '*?raw-hex' {
   const src: string;
   export default src;
 }
+declare module 'd3-geo-projection' {
+  import type { GeoProjection } from 'd3-geo';
+  export function geoRobinson(): GeoProjection;
+}
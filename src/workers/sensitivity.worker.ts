@@ -0,0 +1,16 @@
+import {
+  type SensitivityMessage,
+  type SensitivityRequest,
+  runSensitivity,
+} from '../utils/sensitivity';
+
+// Runs the Monte Carlo sampling off the main thread; the app cancels a run by terminating it
+const post = (message: SensitivityMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SensitivityRequest>) => {
+  const { data, weights, settings, aggregation } = event.data;
+  const countries = runSensitivity(data, weights, settings, aggregation, (completed) =>
+    post({ type: 'progress', completed }),
+  );
+  post({ type: 'result', countries });
+};
@@ -0,0 +1,12 @@
+import { type SolverMessage, type SolverRequest, solveWeights } from '../utils/weightSolver';
+
+// Searches for weights off the main thread; the app cancels a search by terminating it
+const post = (message: SolverMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const { data, weights, country, goal, bounds, aggregation } = event.data;
+  const result = solveWeights(data, weights, country, goal, bounds, aggregation, (progress) =>
+    post({ type: 'progress', progress }),
+  );
+  post({ type: 'result', result });
+};